@@ -1,6 +1,7 @@
 // packages/precise-money/src/adapters/cosmos.ts
-import { toMinor, fromMinor } from '../core';
-import { DEC } from '../registry';
+import { toMinor, fromMinor, mulDiv, type Rounding } from '../core';
+import { DEC, DecimalsNotFoundError } from '../registry';
+import { CHAIN_AMOUNT_BOUNDS, assertFitsChain, toMinorForChain, type ChainAmountKind } from '../bounds';
 
 // Default 6 (micro-denom), mas NÃO é universal
 export function cosmosToMinor(h: string|number, decimals: number = 6): bigint {
@@ -17,11 +18,11 @@ export function cosmosResolveDecimals(
 ): number {
   const { denom, symbol, chainId } = params ?? {};
   if (denom && chainId) {
-    const d = DEC.getById({ chain: 'cosmos', symbol: symbol ?? '', address: denom, chainId: Number(chainId) } as any);
+    const d = DEC.getById({ chain: 'cosmos', symbol: symbol ?? '', denom, chainId });
     if (typeof d === 'number') return d;
   }
   if (denom) {
-    const d = DEC.getById({ chain: 'cosmos', symbol: symbol ?? '', address: denom } as any);
+    const d = DEC.getById({ chain: 'cosmos', symbol: symbol ?? '', denom });
     if (typeof d === 'number') return d;
   }
   if (symbol) {
@@ -31,27 +32,277 @@ export function cosmosResolveDecimals(
   return fallback; // 6 por padrão
 }
 
-/** Opcional: buscar exponent via bank metadata (client/grpc/rest da app) */
-export async function cosmosFetchDecimalsViaBank(
-  client: { bankDenomMetadata: (denom: string) => Promise<{ denom_units?: { denom: string; exponent: number }[], display?: string }> },
-  denom: string
-): Promise<number> {
+/** x/bank `Metadata` (only the fields used here). Exponents are relative to `base` (exponent 0). */
+export type CosmosDenomUnit = { denom: string; exponent: number; aliases?: string[] };
+export type CosmosDenomMetadata = { base?: string; display?: string; denom_units?: CosmosDenomUnit[]; symbol?: string };
+export type CosmosBankClient = { bankDenomMetadata: (denom: string) => Promise<CosmosDenomMetadata | null | undefined> };
+
+/** Full bank metadata for a denom; throws when the chain has none. */
+export async function cosmosFetchDenomMetadata(client: CosmosBankClient, denom: string): Promise<CosmosDenomMetadata> {
   const md = await client.bankDenomMetadata(denom);
-  // padrão: pegue o exponent da unidade 'display'; se não houver, maior exponent
+  if (!md?.denom_units?.length) throw new DecimalsNotFoundError({ chain: 'cosmos', denom }, `denom metadata not found: ${denom}`);
+  return md;
+}
+
+/** Opcional: buscar exponent via bank metadata (client/grpc/rest da app) */
+export async function cosmosFetchDecimalsViaBank(client: CosmosBankClient, denom: string): Promise<number> {
+  return cosmosDisplayExponent(await cosmosFetchDenomMetadata(client, denom));
+}
+
+/** Exponent of the `display` unit; without one, the largest exponent. */
+export function cosmosDisplayExponent(md: CosmosDenomMetadata): number {
   const units = md?.denom_units ?? [];
-  const byDisplay = units.find(u => u.denom === (md?.display || ''));
-  if (byDisplay?.exponent != null) return Number(byDisplay.exponent);
-  const max = units.reduce((m, u) => Math.max(m, Number(u.exponent ?? 0)), 0);
-  return max || 6;
+  if (!units.length) throw new Error('cosmosDisplayExponent: metadata has no denom_units');
+  if (md.display) {
+    const byDisplay = findUnit(md, md.display);
+    if (byDisplay) return byDisplay.exponent;
+  }
+  return units.reduce((m, u) => Math.max(m, Number(u.exponent ?? 0)), 0);
+}
+
+/** Exponent of any unit of the metadata (denom or alias). */
+export function cosmosDenomExponent(md: CosmosDenomMetadata, denom: string): number {
+  const unit = findUnit(md, denom);
+  if (!unit) throw new Error(`cosmosDenomExponent: ${denom} is not a unit of ${md?.base ?? 'this denom'}`);
+  return unit.exponent;
+}
+
+/**
+ * Convert an integer amount between two units of the same metadata.
+ * cosmosConvertDenom(1_500_000n, 'uatom', 'matom', md) → 1500n; 'matom' → 'uatom' is exact.
+ */
+export function cosmosConvertDenom(amount: bigint, from: string, to: string, md: CosmosDenomMetadata, mode: Rounding = 'floor'): bigint {
+  const diff = cosmosDenomExponent(md, from) - cosmosDenomExponent(md, to);
+  return diff >= 0 ? amount * 10n ** BigInt(diff) : mulDiv(amount, 1n, 10n ** BigInt(-diff), mode);
+}
+
+/** Base-unit amount → human string in `unit` (default the display unit): 1500000n uatom → "1.500000" atom. */
+export function cosmosFromBaseUnits(baseAmount: bigint, md: CosmosDenomMetadata, unit?: string): string {
+  return fromMinor(baseAmount, unit ? cosmosDenomExponent(md, unit) : cosmosDisplayExponent(md));
+}
+
+/** Human amount in `unit` (default the display unit) → base-unit amount. */
+export function cosmosToBaseUnits(human: string | number, md: CosmosDenomMetadata, unit?: string, mode?: Rounding): bigint {
+  return toMinor(human, unit ? cosmosDenomExponent(md, unit) : cosmosDisplayExponent(md), { mode });
 }
 
 export async function cosmosEnsureDecimals(
-  args: { client?: { bankDenomMetadata: (d: string) => Promise<any> }; denom?: string; symbol?: string; chainId?: string|number },
+  args: { client?: CosmosBankClient; denom?: string; symbol?: string; chainId?: string|number },
   fallback = 6
 ): Promise<number> {
   const { client, denom, symbol, chainId } = args ?? {};
   if (client && denom) {
-    try { return await cosmosFetchDecimalsViaBank(client as any, denom); } catch { /* fallback */ }
+    try { return await cosmosFetchDecimalsViaBank(client, denom); } catch { /* fallback */ }
   }
   return cosmosResolveDecimals({ denom, symbol, chainId }, fallback);
 }
+
+/** sdk.Int: at most 256 bits of magnitude; coin amounts are non-negative. */
+export const COSMOS_AMOUNT_BOUNDS = CHAIN_AMOUNT_BOUNDS.cosmos;
+
+/** Checked cosmosToMinor: rejects negatives, > 256 bits and more decimals than the denom has (unless `mode` is given). */
+export function cosmosToMinorChecked(
+  h: string | number,
+  decimals: number = 6,
+  opts: { kind?: ChainAmountKind['cosmos']; mode?: Rounding } = {}
+): bigint {
+  return toMinorForChain(h, decimals, 'cosmos', opts);
+}
+
+/** sdk.Int JSON/amino form: plain decimal string ("1000000"). */
+export function cosmosEncodeInt(amount: bigint, kind: ChainAmountKind['cosmos'] = 'coin'): string {
+  return assertFitsChain(amount, 'cosmos', kind).toString();
+}
+
+/* ---------------- IBC denoms ---------------- */
+
+export type CosmosDenomTrace = { path: string; baseDenom: string };
+
+/** "ibc/27394F..." → { hash } (hex, upper-cased); throws for anything else. */
+export function cosmosParseIbcDenom(denom: string): { hash: string } {
+  const m = /^ibc\/([0-9a-fA-F]{64})$/.exec((denom ?? '').trim());
+  if (!m) throw new Error(`cosmosParseIbcDenom: expected ibc/<64 hex chars>, got ${denom}`);
+  return { hash: m[1].toUpperCase() };
+}
+
+export function cosmosIsIbcDenom(denom: string): boolean {
+  return /^ibc\/[0-9a-fA-F]{64}$/.test((denom ?? '').trim());
+}
+
+/**
+ * Split a full trace into port/channel hops and the base denom, like ibc-go's ParseDenomTrace:
+ * "transfer/channel-0/gamm/pool/1" → { path: 'transfer/channel-0', baseDenom: 'gamm/pool/1' }.
+ */
+export function cosmosParseDenomTrace(trace: string): CosmosDenomTrace {
+  const parts = (trace ?? '').trim().split('/');
+  let i = 0;
+  while (i + 2 < parts.length && parts[i] && /^channel-\d+$/.test(parts[i + 1])) i += 2;
+  const baseDenom = parts.slice(i).join('/');
+  if (!baseDenom || parts.some((p) => p === '')) throw new Error(`cosmosParseDenomTrace: invalid trace ${trace}`);
+  return { path: parts.slice(0, i).join('/'), baseDenom };
+}
+
+/** "ibc/" + upper-case hex SHA-256 of "path/baseDenom"; a trace without hops is the native denom itself. */
+export function cosmosIbcDenom(trace: string | CosmosDenomTrace): string {
+  const t = typeof trace === 'string' ? cosmosParseDenomTrace(trace) : trace;
+  if (!t.path) return t.baseDenom;
+  return 'ibc/' + toHex(sha256(new TextEncoder().encode(`${t.path}/${t.baseDenom}`))).toUpperCase();
+}
+
+/* ---------------- sdk.Coin / sdk.Coins ---------------- */
+
+export type CosmosCoin = { denom: string; amount: bigint };
+
+const COIN_RE = /^([0-9]+)\s*([a-zA-Z][a-zA-Z0-9/:._-]{2,127})$/;
+
+/** "1000uatom" → { denom: 'uatom', amount: 1000n }. */
+export function cosmosParseCoin(text: string): CosmosCoin {
+  const m = COIN_RE.exec((text ?? '').trim());
+  if (!m) throw new Error(`cosmosParseCoin: invalid coin ${text}`);
+  return { denom: m[2], amount: assertFitsChain(BigInt(m[1]), 'cosmos', 'coin') };
+}
+
+/**
+ * "1000uatom,5ibc/ABC..." → coins sorted by denom with zero amounts dropped (sdk.NewCoins);
+ * duplicate denoms throw. An empty string is an empty set.
+ */
+export function cosmosParseCoins(text: string): CosmosCoin[] {
+  const s = (text ?? '').trim();
+  if (s === '') return [];
+  return normalizeCoins(s.split(',').map(cosmosParseCoin), 'cosmosParseCoins');
+}
+
+/** Inverse of `cosmosParseCoins`: "1000uatom,5uosmo" (sorted, zero amounts dropped). */
+export function cosmosFormatCoins(coins: CosmosCoin[]): string {
+  return normalizeCoins(coins.map((c) => ({ denom: c.denom, amount: assertFitsChain(c.amount, 'cosmos', 'coin') })), 'cosmosFormatCoins')
+    .map((c) => `${c.amount}${c.denom}`)
+    .join(',');
+}
+
+/** JSON/amino form: { denom, amount: "1000" }. */
+export function cosmosCoinToJSON(coin: CosmosCoin): { denom: string; amount: string } {
+  return { denom: coin.denom, amount: cosmosEncodeInt(coin.amount) };
+}
+
+/* ---------------- sdk.Dec (LegacyDec) ---------------- */
+
+/** sdk.Dec is a fixed-point number with 18 decimals. */
+export const COSMOS_DEC_PRECISION = 18;
+const DEC_ONE = 10n ** 18n;
+// LegacyDec allows 256 integer bits plus the 60 bits of 10^18
+const DEC_MAX = (1n << 316n) - 1n;
+
+/** "0.025" → 25000000000000000n. More than 18 decimals throw unless `mode` is given. */
+export function cosmosParseDec(text: string, mode?: Rounding): bigint {
+  const s = (text ?? '').trim();
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(s)) throw new Error(`cosmosParseDec: invalid decimal ${text}`);
+  const frac = s.split('.')[1] ?? '';
+  if (!mode && frac.length > COSMOS_DEC_PRECISION) throw new Error(`cosmosParseDec: ${text} has more than 18 decimals`);
+  return assertDec(toMinor(s, COSMOS_DEC_PRECISION, { mode }));
+}
+
+/** sdk.Dec string: always 18 fraction digits ("0.025000000000000000"). */
+export function cosmosFormatDec(dec: bigint): string {
+  return fromMinor(assertDec(dec), COSMOS_DEC_PRECISION);
+}
+
+/** Dec × Dec (sdk: LegacyDec chopPrecisionAndRound, i.e. half to even, by default). */
+export function cosmosDecMul(a: bigint, b: bigint, mode: Rounding = 'bankers'): bigint {
+  return assertDec(mulDiv(a, b, DEC_ONE, mode));
+}
+
+/** Dec ÷ Dec (half to even by default, like the sdk). */
+export function cosmosDecQuo(a: bigint, b: bigint, mode: Rounding = 'bankers'): bigint {
+  if (b === 0n) throw new Error('cosmosDecQuo: division by zero');
+  return assertDec(mulDiv(a, DEC_ONE, b, mode));
+}
+
+/** Dec × Int → Int, e.g. commission or gas-price × gas (default rounds up, like fee estimation). */
+export function cosmosDecMulInt(dec: bigint, int: bigint, mode: Rounding = 'ceil'): bigint {
+  return mulDiv(dec, int, DEC_ONE, mode);
+}
+
+/** DecCoin "0.025uatom" → { denom, amount } with the amount as sdk.Dec. */
+export function cosmosParseDecCoin(text: string): CosmosCoin {
+  const m = /^([0-9]+(?:\.[0-9]*)?)\s*([a-zA-Z][a-zA-Z0-9/:._-]{2,127})$/.exec((text ?? '').trim());
+  if (!m) throw new Error(`cosmosParseDecCoin: invalid dec coin ${text}`);
+  return { denom: m[2], amount: cosmosParseDec(m[1]) };
+}
+
+/** Fee for a gas limit at a gas price such as "0.025uatom": ceil(price × gas). */
+export function cosmosGasFee(gasPrice: string | CosmosCoin, gasLimit: bigint | number, mode: Rounding = 'ceil'): CosmosCoin {
+  const price = typeof gasPrice === 'string' ? cosmosParseDecCoin(gasPrice) : gasPrice;
+  if (typeof gasLimit === 'number' && !Number.isSafeInteger(gasLimit)) throw new Error('cosmosGasFee: gasLimit must be an integer');
+  const gas = BigInt(gasLimit);
+  if (gas < 0n) throw new Error('cosmosGasFee: gasLimit must be >= 0');
+  return { denom: price.denom, amount: assertFitsChain(cosmosDecMulInt(price.amount, gas, mode), 'cosmos', 'coin') };
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function findUnit(md: CosmosDenomMetadata, denom: string): CosmosDenomUnit | undefined {
+  return md?.denom_units?.find((u) => u.denom === denom || (u.aliases ?? []).includes(denom));
+}
+
+function normalizeCoins(coins: CosmosCoin[], fn: string): CosmosCoin[] {
+  const sorted = coins.filter((c) => c.amount !== 0n).sort((a, b) => (a.denom < b.denom ? -1 : a.denom > b.denom ? 1 : 0));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].denom === sorted[i - 1].denom) throw new Error(`${fn}: duplicate denom ${sorted[i].denom}`);
+  }
+  return sorted;
+}
+
+function assertDec(d: bigint): bigint {
+  if (d > DEC_MAX || d < -DEC_MAX) throw new Error('sdk.Dec out of range (316 bits)');
+  return d;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/** SHA-256 (FIPS 180-4), dependency-free; only used for IBC denom hashes. */
+function sha256(msg: Uint8Array): Uint8Array {
+  const bitLen = msg.length * 8;
+  const padded = new Uint8Array(Math.ceil((msg.length + 9) / 64) * 64);
+  padded.set(msg);
+  padded[msg.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLen / 2 ** 32));
+  view.setUint32(padded.length - 4, bitLen >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let off = 0; off < padded.length; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(off + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  const out = new Uint8Array(32);
+  const ov = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) ov.setUint32(i * 4, h[i]);
+  return out;
+}
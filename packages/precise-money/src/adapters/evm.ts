@@ -1,8 +1,9 @@
 // EVM adapter (SDK-free). Defaults to 18 decimals, but tokens like USDC(6) or WBTC(8) differ.
 // Use evmResolveDecimals(...) or on-chain fetch helpers to determine the correct decimals.
 
-import { toMinor, fromMinor } from '../core';
-import { DEC } from '../registry';
+import { toMinor, fromMinor, slippageUp, type Rounding } from '../core';
+import { DEC, DecimalsNotFoundError } from '../registry';
+import { CHAIN_AMOUNT_BOUNDS, assertFitsChain, toMinorForChain, type ChainAmountKind } from '../bounds';
 
 
 /**
@@ -24,7 +25,7 @@ fallback = 18
 ): number {
 const { symbol, address, chainId } = params ?? {};
 if (address && typeof chainId === 'number') {
-const byId = DEC.getById({ chain: 'evm', symbol: symbol ?? '', address, chainId } as any);
+const byId = DEC.getById({ chain: 'evm', symbol: symbol ?? '', address, chainId });
 if (typeof byId === 'number') return byId;
 }
 if (symbol) {
@@ -35,7 +36,10 @@ return fallback;
 }
 
 
-/** Optional: fetch decimals from chain via a minimal viem-compatible client. */
+/**
+* Optional: fetch decimals from chain via a minimal viem-compatible client.
+* A revert or an empty return (no contract, or no decimals()) throws DecimalsNotFoundError; RPC failures are rethrown as-is.
+*/
 export async function evmFetchDecimalsViaViem(
 client: { readContract: (args: { address: `0x${string}`; abi: any; functionName: 'decimals' }) => Promise<any> },
 token: `0x${string}`
@@ -43,7 +47,13 @@ token: `0x${string}`
 const erc20Abi = [{
 type: 'function', stateMutability: 'view', name: 'decimals', inputs: [], outputs: [{ name: '', type: 'uint8' }]
 }] as const;
-const d = await client.readContract({ address: token, abi: erc20Abi as any, functionName: 'decimals' });
+let d: any;
+try {
+d = await client.readContract({ address: token, abi: erc20Abi as any, functionName: 'decimals' });
+} catch (e) {
+if (isMissingDecimals(e)) throw new DecimalsNotFoundError({ chain: 'evm', address: token }, `decimals() not available at ${token}: ${(e as Error)?.message ?? e}`);
+throw e;
+}
 const n = Number(d);
 if (!Number.isFinite(n) || n < 0 || n > 36) throw new Error(`invalid decimals from chain: ${d}`);
 return n;
@@ -60,4 +70,162 @@ if (client && address) {
 try { return await evmFetchDecimalsViaViem(client as any, address); } catch { /* fall through */ }
 }
 return evmResolveDecimals({ symbol, address, chainId }, fallback);
-}
\ No newline at end of file
+}
+
+
+/** uint256 / int256 ranges. */
+export const EVM_AMOUNT_BOUNDS = CHAIN_AMOUNT_BOUNDS.evm;
+
+
+/** Checked evmToMinor: rejects negatives, > uint256 and more decimals than the token has (unless `mode` is given). */
+export function evmToMinorChecked(
+human: string | number,
+decimals: number = 18,
+opts: { kind?: ChainAmountKind['evm']; mode?: Rounding } = {}
+): bigint {
+return toMinorForChain(human, decimals, 'evm', opts);
+}
+
+
+/** ABI word: 32-byte big-endian hex (two's complement for int256), e.g. for calldata or eth_call results. */
+export function evmEncodeUint256(amount: bigint, kind: ChainAmountKind['evm'] = 'uint256'): `0x${string}` {
+assertFitsChain(amount, 'evm', kind);
+const word = amount < 0n ? (1n << 256n) + amount : amount;
+return `0x${word.toString(16).padStart(64, '0')}`;
+}
+
+
+/** ABI word → bigint (inverse of evmEncodeUint256; int256 reads two's complement). */
+export function evmDecodeUint256(word: string, kind: ChainAmountKind['evm'] = 'uint256'): bigint {
+if (!/^0x[0-9a-fA-F]{64}$/.test(word)) throw new Error(`evmDecodeUint256: expected a 32-byte hex word, got ${word}`);
+const v = BigInt(word);
+return kind === 'int256' && v >> 255n === 1n ? v - (1n << 256n) : v;
+}
+
+
+/* ---------------- named units ---------------- */
+
+/** Decimals of the named ether units. */
+export const EVM_UNITS = Object.freeze({ wei: 0, kwei: 3, mwei: 6, gwei: 9, szabo: 12, finney: 15, ether: 18 });
+export type EvmUnit = keyof typeof EVM_UNITS;
+
+/** "1.5" gwei → 1500000000n wei. Digits finer than 1 wei throw unless `mode` is given. */
+export function evmToWei(human: string | number, unit: EvmUnit = 'ether', opts: { mode?: Rounding } = {}): bigint {
+return toMinorForChain(human, unitDecimals(unit), 'evm', opts);
+}
+
+/** 1500000000n wei → "1.500000000" gwei. */
+export function evmFromWei(wei: bigint, unit: EvmUnit = 'ether'): string {
+return fromMinor(wei, unitDecimals(unit));
+}
+
+
+/* ---------------- hex quantities ---------------- */
+
+/** JSON-RPC quantity ("0x1a", "0x0") or any 0x-prefixed hex → bigint. */
+export function evmFromHexQuantity(hex: string): bigint {
+if (typeof hex !== 'string' || !/^0x[0-9a-fA-F]+$/.test(hex.trim())) throw new Error(`evmFromHexQuantity: invalid hex quantity ${hex}`);
+return BigInt(hex.trim());
+}
+
+/** bigint → JSON-RPC quantity: no leading zeros, "0x0" for zero; must fit uint256. */
+export function evmToHexQuantity(value: bigint): `0x${string}` {
+return `0x${assertFitsChain(value, 'evm').toString(16)}`;
+}
+
+
+/* ---------------- gas and fees (all in wei) ---------------- */
+
+export type Eip1559FeeParams = {
+gasLimit: bigint;
+/** Expected gas used; defaults to gasLimit. */
+gasUsed?: bigint;
+baseFeePerGas: bigint;
+maxPriorityFeePerGas: bigint;
+/** Default 2 × baseFeePerGas + maxPriorityFeePerGas (room for several full blocks). */
+maxFeePerGas?: bigint;
+};
+
+export type LegacyFeeParams = { gasLimit: bigint; gasUsed?: bigint; gasPrice: bigint };
+
+export type EvmFeeEstimate = {
+/** Worst case the sender must hold: gasLimit × maxFeePerGas (or gasPrice). */
+maxCost: bigint;
+/** gasUsed × effective gas price at the given base fee. */
+expectedCost: bigint;
+effectiveGasPrice: bigint;
+maxFeePerGas: bigint;
+maxPriorityFeePerGas: bigint;
+};
+
+/** min(maxFeePerGas, baseFee + priorityFee); throws when the cap is below the base fee (not includable). */
+export function evmEffectiveGasPrice(p: { baseFeePerGas: bigint; maxPriorityFeePerGas: bigint; maxFeePerGas: bigint }): bigint {
+assertWei('evmEffectiveGasPrice', p.baseFeePerGas, p.maxPriorityFeePerGas, p.maxFeePerGas);
+if (p.maxFeePerGas < p.baseFeePerGas) throw new Error(`evmEffectiveGasPrice: maxFeePerGas ${p.maxFeePerGas} is below baseFeePerGas ${p.baseFeePerGas}`);
+if (p.maxPriorityFeePerGas > p.maxFeePerGas) throw new Error('evmEffectiveGasPrice: maxPriorityFeePerGas exceeds maxFeePerGas');
+const tip = p.baseFeePerGas + p.maxPriorityFeePerGas;
+return tip < p.maxFeePerGas ? tip : p.maxFeePerGas;
+}
+
+/** Max and expected cost of an EIP-1559 (or legacy `gasPrice`) transaction. */
+export function evmEstimateFee(p: Eip1559FeeParams | LegacyFeeParams): EvmFeeEstimate {
+const gasUsed = p.gasUsed ?? p.gasLimit;
+assertWei('evmEstimateFee', p.gasLimit, gasUsed);
+if (gasUsed > p.gasLimit) throw new Error('evmEstimateFee: gasUsed exceeds gasLimit');
+if ('gasPrice' in p) {
+assertWei('evmEstimateFee', p.gasPrice);
+return { maxCost: p.gasLimit * p.gasPrice, expectedCost: gasUsed * p.gasPrice, effectiveGasPrice: p.gasPrice, maxFeePerGas: p.gasPrice, maxPriorityFeePerGas: p.gasPrice };
+}
+const maxFeePerGas = p.maxFeePerGas ?? 2n * p.baseFeePerGas + p.maxPriorityFeePerGas;
+const effectiveGasPrice = evmEffectiveGasPrice({ ...p, maxFeePerGas });
+return { maxCost: p.gasLimit * maxFeePerGas, expectedCost: gasUsed * effectiveGasPrice, effectiveGasPrice, maxFeePerGas, maxPriorityFeePerGas: p.maxPriorityFeePerGas };
+}
+
+export type EvmL2FeeEstimate = EvmFeeEstimate & { l2ExecutionFee: EvmFeeEstimate; l1DataFee: bigint };
+
+/**
+ * Rollup total: L2 execution (EIP-1559 on the L2) plus the L1 data fee reported by the
+ * chain (e.g. OP-stack GasPriceOracle.getL1Fee); `l1DataFeeBufferBps` pads the max cost for L1 base fee moves.
+ */
+export function evmEstimateL2Fee(p: (Eip1559FeeParams | LegacyFeeParams) & { l1DataFee: bigint; l1DataFeeBufferBps?: number }): EvmL2FeeEstimate {
+assertWei('evmEstimateL2Fee', p.l1DataFee);
+const l2 = evmEstimateFee(p);
+const l1Max = p.l1DataFeeBufferBps ? slippageUp(p.l1DataFee, p.l1DataFeeBufferBps) : p.l1DataFee;
+return { ...l2, maxCost: l2.maxCost + l1Max, expectedCost: l2.expectedCost + p.l1DataFee, l2ExecutionFee: l2, l1DataFee: p.l1DataFee };
+}
+
+/** Raise a fee by `bps`, rounding up (slippageUp); bps is clamped to [0, 10000]. */
+export function evmBumpGasPrice(wei: bigint, bps: number = 1000): bigint {
+return slippageUp(wei, bps);
+}
+
+/**
+ * Replacement-transaction fees: bump maxFeePerGas and maxPriorityFeePerGas (or gasPrice) by `bps`.
+ * Nodes require both to rise, by 10% on geth (the default).
+ */
+export function evmBumpFees<T extends { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint }>(fees: T, bps: number = 1000): T {
+if ('gasPrice' in fees) return { ...fees, gasPrice: slippageUp(fees.gasPrice, bps) };
+return { ...fees, maxFeePerGas: slippageUp(fees.maxFeePerGas, bps), maxPriorityFeePerGas: slippageUp(fees.maxPriorityFeePerGas, bps) };
+}
+
+
+/* ---------------- internal helpers ---------------- */
+
+function unitDecimals(unit: EvmUnit): number {
+const d = (EVM_UNITS as Record<string, number>)[unit];
+if (d === undefined) throw new Error(`unknown EVM unit: ${unit}`);
+return d;
+}
+
+/** viem's ContractFunctionRevertedError / ContractFunctionZeroDataError, possibly wrapped, or their messages. */
+function isMissingDecimals(e: unknown): boolean {
+for (let err: any = e, depth = 0; err && depth < 8; err = err.cause, depth++) {
+if (err.name === 'ContractFunctionRevertedError' || err.name === 'ContractFunctionZeroDataError') return true;
+if (/execution reverted|returned no data/i.test(String(err.message ?? ''))) return true;
+}
+return false;
+}
+
+function assertWei(fn: string, ...values: bigint[]): void {
+for (const v of values) if (typeof v !== 'bigint' || v < 0n) throw new Error(`${fn}: amounts must be non-negative bigints`);
+}
@@ -2,8 +2,9 @@
 // SOL native: 9. Many SPL mints are 6 or 9 (USDC-SPL = 6).
 // Prefer resolving decimals via registry or fetching from the mint account.
 
-import { toMinor, fromMinor } from '../core';
-import { DEC } from '../registry';
+import { toMinor, fromMinor, mulDiv, normalizeAmountInput, type Rounding } from '../core';
+import { DEC, DecimalsNotFoundError } from '../registry';
+import { CHAIN_AMOUNT_BOUNDS, assertFitsChain, toMinorForChain } from '../bounds';
 
 /** Pure formatting with a safe default (9). */
 export function solanaToMinor(human: string | number, decimals: number = 9): bigint {
@@ -20,7 +21,7 @@ export function solanaResolveDecimals(
 ): number {
   const { symbol, mint } = params ?? {};
   if (mint) {
-    const byId = DEC.getById({ chain: 'solana', symbol: symbol ?? '', address: mint } as any);
+    const byId = DEC.getById({ chain: 'solana', symbol: symbol ?? '', address: mint });
     if (typeof byId === 'number') return byId;
   }
   if (symbol) {
@@ -36,6 +37,7 @@ export async function solanaFetchMintDecimalsViaParsed(
   mintPubkey: any // pass a PublicKey from @solana/web3.js
 ): Promise<number> {
   const info = await connection.getParsedAccountInfo(mintPubkey);
+  if (info?.value == null) throw new DecimalsNotFoundError({ chain: 'solana', address: String(mintPubkey) }, `mint account not found: ${String(mintPubkey)}`);
   const dec = Number(
     (info as any)?.value?.data?.parsed?.info?.decimals ??
     (info as any)?.value?.data?.info?.decimals
@@ -55,3 +57,165 @@ export async function solanaEnsureDecimals(
   }
   return solanaResolveDecimals({ symbol, mint: typeof mint === 'string' ? mint : undefined }, fallback);
 }
+
+/** Lamports and SPL token amounts are u64. */
+export const SOLANA_AMOUNT_BOUNDS = CHAIN_AMOUNT_BOUNDS.solana;
+
+/** Checked solanaToMinor: rejects negatives, > u64 and more decimals than the mint has (unless `mode` is given). */
+export function solanaToMinorChecked(human: string | number, decimals: number = 9, opts: { mode?: Rounding } = {}): bigint {
+  return toMinorForChain(human, decimals, 'solana', opts);
+}
+
+/** u64 little-endian bytes, as in SPL Token instruction data. */
+export function solanaEncodeU64(amount: bigint): Uint8Array {
+  assertFitsChain(amount, 'solana', 'u64');
+  const out = new Uint8Array(8);
+  for (let i = 0, v = amount; i < 8; i++, v >>= 8n) out[i] = Number(v & 0xffn);
+  return out;
+}
+
+/** Inverse of `solanaEncodeU64`. */
+export function solanaDecodeU64(bytes: Uint8Array, offset = 0): bigint {
+  if (bytes.length < offset + 8) throw new Error('solanaDecodeU64: need 8 bytes');
+  let v = 0n;
+  for (let i = 7; i >= 0; i--) v = (v << 8n) | BigInt(bytes[offset + i]);
+  return v;
+}
+
+/* ---------------- compute budget and fees ---------------- */
+
+/** Default `lamports_per_signature`. */
+export const SOLANA_LAMPORTS_PER_SIGNATURE = 5000n;
+export const SOLANA_MICRO_LAMPORTS_PER_LAMPORT = 1_000_000n;
+/** Compute units granted per non-builtin instruction without SetComputeUnitLimit, and the tx cap. */
+export const SOLANA_DEFAULT_INSTRUCTION_COMPUTE_UNITS = 200_000;
+export const SOLANA_MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+/** Prioritization fee in lamports: ceil(microLamports per CU × CU limit / 10^6), as the runtime computes it. */
+export function solanaPriorityFee(computeUnitPriceMicroLamports: bigint | number, computeUnitLimit: bigint | number): bigint {
+  const price = toU64('solanaPriorityFee', computeUnitPriceMicroLamports);
+  const limit = toU64('solanaPriorityFee', computeUnitLimit);
+  return mulDiv(price, limit, SOLANA_MICRO_LAMPORTS_PER_LAMPORT, 'ceil');
+}
+
+/** Compute-unit limit when no SetComputeUnitLimit instruction is present. */
+export function solanaDefaultComputeUnitLimit(nonBuiltinInstructions: number): number {
+  if (!Number.isInteger(nonBuiltinInstructions) || nonBuiltinInstructions < 0)
+    throw new Error('solanaDefaultComputeUnitLimit: instruction count must be a non-negative integer');
+  return Math.min(nonBuiltinInstructions * SOLANA_DEFAULT_INSTRUCTION_COMPUTE_UNITS, SOLANA_MAX_COMPUTE_UNIT_LIMIT);
+}
+
+export type SolanaFeeParams = {
+  /** Required signatures (fee payer included). */
+  signatures: number;
+  lamportsPerSignature?: bigint;
+  computeUnitPriceMicroLamports?: bigint | number;
+  /** SetComputeUnitLimit value. Without it the runtime default applies (see `nonBuiltinInstructions`). */
+  computeUnitLimit?: bigint | number;
+  /** Non-builtin instructions, for the default limit when `computeUnitLimit` is not set. */
+  nonBuiltinInstructions?: number;
+};
+
+/**
+ * Base fee (signatures × lamportsPerSignature) plus the priority fee, in lamports. A compute-unit price
+ * needs the limit it is charged on: `computeUnitLimit`, or `nonBuiltinInstructions` for the runtime default.
+ */
+export function solanaTransactionFee(p: SolanaFeeParams): { baseFee: bigint; priorityFee: bigint; total: bigint } {
+  if (!Number.isInteger(p.signatures) || p.signatures < 1) throw new Error('solanaTransactionFee: signatures must be a positive integer');
+  const baseFee = BigInt(p.signatures) * toU64('solanaTransactionFee', p.lamportsPerSignature ?? SOLANA_LAMPORTS_PER_SIGNATURE);
+  let priorityFee = 0n;
+  if (p.computeUnitPriceMicroLamports) {
+    const limit = p.computeUnitLimit ?? (p.nonBuiltinInstructions !== undefined ? solanaDefaultComputeUnitLimit(p.nonBuiltinInstructions) : undefined);
+    if (limit === undefined)
+      throw new Error('solanaTransactionFee: computeUnitPriceMicroLamports needs computeUnitLimit or nonBuiltinInstructions');
+    priorityFee = solanaPriorityFee(p.computeUnitPriceMicroLamports, limit);
+  }
+  return { baseFee, priorityFee, total: baseFee + priorityFee };
+}
+
+/* ---------------- rent ---------------- */
+
+/** Bytes of account metadata charged on top of the data length. */
+export const SOLANA_ACCOUNT_STORAGE_OVERHEAD = 128n;
+
+export type SolanaRentParams = {
+  /** Default 3480. */
+  lamportsPerByteYear?: bigint;
+  /** Years of rent required for exemption. Default 2. */
+  exemptionThreshold?: number | string;
+};
+
+/**
+ * Rent-exempt minimum balance: (128 + dataLen) × lamportsPerByteYear × exemptionThreshold,
+ * truncated like the runtime's f64 → u64 cast. 0 bytes → 890880, a 165-byte token account → 2039280.
+ */
+export function solanaRentExemptMinimum(dataLength: number | bigint, rent: SolanaRentParams = {}): bigint {
+  const len = toU64('solanaRentExemptMinimum', dataLength);
+  const perByteYear = toU64('solanaRentExemptMinimum', rent.lamportsPerByteYear ?? 3480n);
+  const t = normalizeAmountInput(rent.exemptionThreshold ?? 2);
+  if (t.sign < 0n) throw new Error('solanaRentExemptMinimum: exemptionThreshold must be >= 0');
+  const lamports = mulDiv((SOLANA_ACCOUNT_STORAGE_OVERHEAD + len) * perByteYear, BigInt(t.int + t.frac), 10n ** BigInt(t.frac.length), 'trunc');
+  return assertFitsChain(lamports, 'solana');
+}
+
+/* ---------------- Token-2022 transfer fees ---------------- */
+
+/** One `TransferFee` of the Token-2022 TransferFeeConfig extension. */
+export type SolanaTransferFee = {
+  /** Epoch from which this fee applies (newerTransferFee). */
+  epoch?: bigint;
+  transferFeeBasisPoints: number;
+  maximumFee: bigint;
+};
+
+export type SolanaTransferFeeConfig = { olderTransferFee: SolanaTransferFee; newerTransferFee: SolanaTransferFee };
+
+/** The fee in force at `epoch` (TransferFeeConfig::get_epoch_fee). */
+export function solanaEpochTransferFee(config: SolanaTransferFeeConfig, epoch: bigint): SolanaTransferFee {
+  return epoch >= (config.newerTransferFee.epoch ?? 0n) ? config.newerTransferFee : config.olderTransferFee;
+}
+
+/** Fee withheld on a transfer of `amount`: min(ceil(amount × bps / 10000), maximumFee) (TransferFee::calculate_fee). */
+export function solanaTransferFee(amount: bigint, fee: SolanaTransferFee): bigint {
+  const bps = transferFeeBps(fee);
+  assertFitsChain(amount, 'solana');
+  if (bps === 0n || amount === 0n) return 0n;
+  const raw = mulDiv(amount, bps, 10_000n, 'ceil');
+  return raw < fee.maximumFee ? raw : fee.maximumFee;
+}
+
+/**
+ * Amount to send so the recipient receives `netAmount` (TransferFee::calculate_pre_fee_amount):
+ * ceil(net × 10000 / (10000 − bps)), or net + maximumFee once the fee is capped.
+ */
+export function solanaTransferGrossUp(netAmount: bigint, fee: SolanaTransferFee): bigint {
+  const bps = transferFeeBps(fee);
+  assertFitsChain(netAmount, 'solana');
+  if (bps === 0n) return netAmount;
+  if (netAmount === 0n) return 0n;
+  if (bps === 10_000n) return assertFitsChain(netAmount + fee.maximumFee, 'solana');
+  const raw = mulDiv(netAmount, 10_000n, 10_000n - bps, 'ceil');
+  const gross = raw - netAmount >= fee.maximumFee ? netAmount + fee.maximumFee : raw;
+  return assertFitsChain(gross, 'solana');
+}
+
+/** Fee charged on the grossed-up amount (TransferFee::calculate_inverse_fee). */
+export function solanaTransferInverseFee(netAmount: bigint, fee: SolanaTransferFee): bigint {
+  return solanaTransferFee(solanaTransferGrossUp(netAmount, fee), fee);
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function toU64(fn: string, v: bigint | number): bigint {
+  if (typeof v === 'number' && !Number.isSafeInteger(v)) throw new Error(`${fn}: ${v} is not an integer`);
+  const b = BigInt(v);
+  if (b < 0n || b > SOLANA_AMOUNT_BOUNDS.u64.max) throw new Error(`${fn}: ${v} is outside u64`);
+  return b;
+}
+
+function transferFeeBps(fee: SolanaTransferFee): bigint {
+  const bps = fee?.transferFeeBasisPoints;
+  if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) throw new Error('transferFeeBasisPoints must be an integer in [0, 10000]');
+  assertFitsChain(fee.maximumFee, 'solana');
+  return BigInt(bps);
+}
@@ -1,6 +1,8 @@
 // packages/precise-money/src/adapters/stellar.ts
-import { toMinor, fromMinor } from '../core';
-import { DEC } from '../registry';
+import { toMinor, fromMinor, mulDiv, normalizeAmountInput, type Rounding } from '../core';
+import { reducePrice, type PriceRatio } from '../price';
+import { DEC, DecimalsNotFoundError } from '../registry';
+import { CHAIN_AMOUNT_BOUNDS, assertFitsChain, toMinorForChain, type ChainAmountKind } from '../bounds';
 
 // Classic ledger: sempre 7
 export function stellarClassicToMinor(h: string|number): bigint { return toMinor(h, 7); }
@@ -21,11 +23,11 @@ export function stellarResolveDecimals(
 ): number {
   const { symbol, issuer, contractId } = params ?? {};
   if (contractId) {
-    const d = DEC.getById({ chain: 'stellar', symbol: symbol ?? '', address: contractId } as any);
+    const d = DEC.getById({ chain: 'stellar', symbol: symbol ?? '', address: contractId });
     if (typeof d === 'number') return d;
   }
   if (issuer) {
-    const d = DEC.getById({ chain: 'stellar', symbol: symbol ?? '', issuer } as any);
+    const d = DEC.getById({ chain: 'stellar', symbol: symbol ?? '', issuer });
     if (typeof d === 'number') return d;
   }
   if (symbol) {
@@ -34,3 +36,168 @@ export function stellarResolveDecimals(
   }
   return fallback; // 7 no classic
 }
+
+// Identificadores aceitos: 'native', 'CODE:ISSUER' (classic) e 'C...' (contrato Soroban / SEP-41)
+export type StellarAssetRef =
+  | { type: 'native' }
+  | { type: 'classic'; code: string; issuer: string }
+  | { type: 'contract'; contractId: string };
+
+/** Minimal Soroban RPC client: simulate the token contract's `decimals()` and return the native value (e.g. via `scValToNative`). */
+export type StellarSorobanClient = {
+  simulateContractCall: (args: { contractId: string; method: 'decimals'; args: [] }) => Promise<unknown>;
+};
+/** Minimal Horizon client: the `/assets` record for code+issuer, or null/undefined when the asset does not exist. */
+export type StellarHorizonClient = {
+  loadAsset: (code: string, issuer: string) => Promise<unknown>;
+};
+export type StellarClients = { soroban?: StellarSorobanClient; horizon?: StellarHorizonClient };
+
+export function stellarParseAssetId(asset: string): StellarAssetRef {
+  const s = (asset ?? '').trim();
+  if (s === 'native') return { type: 'native' };
+  if (/^C[A-Z2-7]{55}$/.test(s)) return { type: 'contract', contractId: s };
+  const m = /^([a-zA-Z0-9]{1,12}):(G[A-Z2-7]{55})$/.exec(s);
+  if (m) return { type: 'classic', code: m[1], issuer: m[2] };
+  throw new Error(`stellarParseAssetId: expected 'native', 'CODE:ISSUER' or a C... contract id, got ${asset}`);
+}
+
+/**
+ * Fetch decimals: native and classic assets are always 7 (Horizon, when given, confirms the asset exists);
+ * Soroban contracts are asked for `decimals()` through the simulation client.
+ */
+export async function stellarFetchDecimals(clients: StellarClients, asset: string | StellarAssetRef): Promise<number> {
+  const ref = typeof asset === 'string' ? stellarParseAssetId(asset) : asset;
+  if (ref.type === 'native') return 7;
+  if (ref.type === 'classic') {
+    if (clients?.horizon) {
+      const record = await clients.horizon.loadAsset(ref.code, ref.issuer);
+      if (record == null)
+        throw new DecimalsNotFoundError({ chain: 'stellar', symbol: ref.code, issuer: ref.issuer }, `asset not found: ${ref.code}:${ref.issuer}`);
+    }
+    return 7;
+  }
+  if (!clients?.soroban) throw new Error('stellarFetchDecimals: a soroban client is required for contract ids');
+  const d = await clients.soroban.simulateContractCall({ contractId: ref.contractId, method: 'decimals', args: [] });
+  const n = typeof d === 'bigint' || typeof d === 'string' || typeof d === 'number' ? Number(d) : NaN;
+  if (!Number.isInteger(n) || n < 0 || n > 36) throw new Error(`invalid decimals from contract: ${String(d)}`);
+  return n;
+}
+
+// Mesmo padrão dos outros adapters: chain primeiro, depois registry, depois fallback (7)
+export async function stellarEnsureDecimals(
+  args: StellarClients & { asset?: string; symbol?: string },
+  fallback = 7
+): Promise<number> {
+  const { soroban, horizon, asset, symbol } = args ?? {};
+  let ref: StellarAssetRef | undefined;
+  try { ref = asset ? stellarParseAssetId(asset) : undefined; } catch { /* registry only */ }
+  if (ref && (ref.type !== 'contract' || soroban)) {
+    try { return await stellarFetchDecimals({ soroban, horizon }, ref); } catch { /* fall through */ }
+  }
+  return stellarResolveDecimals({
+    symbol: symbol ?? (ref?.type === 'classic' ? ref.code : undefined),
+    issuer: ref?.type === 'classic' ? ref.issuer : undefined,
+    contractId: ref?.type === 'contract' ? ref.contractId : undefined,
+  }, fallback);
+}
+
+// Classic: Int64 em stroops (não negativo); Soroban/SEP-41: i128
+export const STELLAR_AMOUNT_BOUNDS = CHAIN_AMOUNT_BOUNDS.stellar;
+
+/** Checked stellarToMinor: rejects negatives, > i64 (classic) / i128 (soroban) and extra decimals (unless `mode` is given). */
+export function stellarToMinorChecked(
+  h: string | number,
+  decimals: number = 7,
+  opts: { kind?: ChainAmountKind['stellar']; mode?: Rounding } = {}
+): bigint {
+  return toMinorForChain(h, decimals, 'stellar', opts);
+}
+
+/** Stroops as the integer string used by XDR Int64 / Soroban i128 JSON ("123456789" = 12.3456789 XLM). */
+export function stellarEncodeStroops(stroops: bigint, kind: ChainAmountKind['stellar'] = 'classic'): string {
+  return assertFitsChain(stroops, 'stellar', kind).toString();
+}
+
+/* ---------------- reserves, fees and offer prices ---------------- */
+
+/** Protocol defaults in stroops: 0.5 XLM base reserve, 100-stroop base fee. */
+export const STELLAR_BASE_RESERVE = 5_000_000n;
+export const STELLAR_BASE_FEE = 100n;
+const INT32_MAX = 2_147_483_647n;
+
+export type StellarAccountEntries = {
+  subentries: number;
+  /** Entries this account sponsors for others (numSponsoring). */
+  sponsoring?: number;
+  /** Entries others sponsor for this account (numSponsored). */
+  sponsored?: number;
+};
+
+/** Minimum balance in stroops: (2 + subentries + sponsoring − sponsored) × baseReserve. */
+export function stellarMinimumBalance(entries: StellarAccountEntries, baseReserve: bigint = STELLAR_BASE_RESERVE): bigint {
+  const { subentries, sponsoring = 0, sponsored = 0 } = entries ?? ({} as StellarAccountEntries);
+  for (const n of [subentries, sponsoring, sponsored])
+    if (!Number.isInteger(n) || n < 0) throw new Error('stellarMinimumBalance: entry counts must be non-negative integers');
+  const units = 2 + subentries + sponsoring - sponsored;
+  if (units < 0) throw new Error('stellarMinimumBalance: more sponsored entries than the account holds');
+  return BigInt(units) * baseReserve;
+}
+
+/** Max fee in stroops for a transaction: baseFee × operations. */
+export function stellarTransactionFee(operations: number, baseFee: bigint = STELLAR_BASE_FEE): bigint {
+  if (!Number.isInteger(operations) || operations < 1 || operations > 100) throw new Error('stellarTransactionFee: operations must be in [1, 100]');
+  return assertFitsChain(BigInt(operations) * baseFee, 'stellar');
+}
+
+/** Fee-bump transactions pay for the inner operations plus the bump itself: baseFee × (operations + 1). */
+export function stellarFeeBumpFee(innerOperations: number, baseFee: bigint = STELLAR_BASE_FEE): bigint {
+  if (!Number.isInteger(innerOperations) || innerOperations < 1 || innerOperations > 100) throw new Error('stellarFeeBumpFee: operations must be in [1, 100]');
+  return assertFitsChain(BigInt(innerOperations + 1) * baseFee, 'stellar');
+}
+
+/** XDR `Price`: int32 numerator/denominator. */
+export type StellarPrice = { n: number; d: number };
+
+/**
+ * Decimal price → `{ n, d }` with the SDK's continued-fraction search (stellar-base `best_r`),
+ * including its 20-decimal-place BigNumber rounding of each reciprocal, so results match bit for bit.
+ * stellarPriceFromDecimal('1.25') → { n: 5, d: 4 }
+ */
+export function stellarPriceFromDecimal(price: string | number | PriceRatio): StellarPrice {
+  let x: PriceRatio;
+  if (typeof price === 'object') x = reducePrice(price);
+  else {
+    const v = normalizeAmountInput(price);
+    if (v.sign < 0n && /[1-9]/.test(v.int + v.frac)) throw new Error('stellarPriceFromDecimal: price must be >= 0');
+    x = { num: BigInt(v.int + v.frac), den: 10n ** BigInt(v.frac.length) };
+  }
+  const fractions: [bigint, bigint][] = [[0n, 1n], [1n, 0n]];
+  for (;;) {
+    if (x.num > INT32_MAX * x.den) break;
+    const a = x.num / x.den;
+    const f = { num: x.num - a * x.den, den: x.den };
+    const [h1, k1] = fractions[fractions.length - 1];
+    const [h2, k2] = fractions[fractions.length - 2];
+    const h = a * h1 + h2;
+    const k = a * k1 + k2;
+    if (h > INT32_MAX || k > INT32_MAX) break;
+    fractions.push([h, k]);
+    if (f.num === 0n) break;
+    // BigNumber(1).div(f): 20 decimal places, ROUND_HALF_UP
+    x = { num: mulDiv(f.den, BIGNUMBER_SCALE, f.num, 'round'), den: BIGNUMBER_SCALE };
+  }
+  const [n, d] = fractions[fractions.length - 1];
+  if (n === 0n || d === 0n) throw new Error(`stellarPriceFromDecimal: couldn't find an approximation for ${String(typeof price === 'object' ? `${price.num}/${price.den}` : price)}`);
+  return { n: Number(n), d: Number(d) };
+}
+
+/** `{ n, d }` → exact `{ num, den }` ratio (buying per selling unit; both sides have 7 decimals on classic). */
+export function stellarPriceToRatio(price: StellarPrice): PriceRatio {
+  const { n, d } = price ?? ({} as StellarPrice);
+  if (!Number.isInteger(n) || !Number.isInteger(d) || n < 1 || d < 1 || BigInt(n) > INT32_MAX || BigInt(d) > INT32_MAX)
+    throw new Error('stellarPriceToRatio: n and d must be int32 values > 0');
+  return reducePrice({ num: BigInt(n), den: BigInt(d) });
+}
+
+const BIGNUMBER_SCALE = 10n ** 20n;
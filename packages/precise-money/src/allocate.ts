@@ -0,0 +1,150 @@
+/**
+ * @defy-labs/precise-money — allocate.ts
+ * Split a total by weights so that the parts always sum exactly to the total.
+ * Pure BigInt; the rounding dust is either distributed by a declared strategy or returned.
+ */
+
+import { normalizeAmountInput } from './core';
+
+/**
+ * largestRemainder → one unit each to the largest fractional remainders (Hamilton method)
+ * firstN           → one unit each to the first parties in order
+ * roundRobin       → like firstN, but starting at `startIndex` (rotate it between runs)
+ * toIndex          → all dust to the party at `remainderIndex`
+ */
+export type RemainderStrategy = 'largestRemainder' | 'firstN' | 'roundRobin' | 'toIndex';
+
+export type AllocateOptions = {
+  /** 'bps' requires the weights to sum to exactly 10_000. Default 'ratio'. */
+  weights?: 'ratio' | 'bps';
+  strategy?: RemainderStrategy;
+  /** Party receiving the dust for 'toIndex'. */
+  remainderIndex?: number;
+  /** First party served by 'roundRobin'. Default 0. */
+  startIndex?: number;
+  /** Every party with a non-zero weight receives at least this much (in absolute value). */
+  minPerShare?: bigint;
+};
+
+export type Weight = bigint | number | string;
+export type AllocationWithDust = { shares: bigint[]; dust: bigint };
+
+/**
+ * Allocate `totalMinor` proportionally to `weights` (bigint, integer/decimal numbers or decimal strings).
+ * Example: allocate(100n, [70, 20, 10]) → [70n, 20n, 10n]; allocate(10n, ['1', '1', '1']) → [4n, 3n, 3n]
+ * Negative totals are allocated on the absolute value and negated.
+ */
+export function allocate(totalMinor: bigint, weights: Weight[], opts: AllocateOptions = {}): bigint[] {
+  const plan = planAllocation(totalMinor, weights, opts);
+  const shares = plan.shares.slice();
+  const order = dustOrder(plan, opts);
+  let dust = plan.dust;
+  for (let k = 0; dust > 0n; k = (k + 1) % order.length) {
+    const take = opts.strategy === 'toIndex' ? dust : 1n;
+    shares[order[k]] += take;
+    dust -= take;
+  }
+  return plan.negative ? shares.map((s) => -s) : shares;
+}
+
+/** Like `allocate`, but leaves every share floored and returns the undistributed dust explicitly. */
+export function allocateWithDust(totalMinor: bigint, weights: Weight[], opts: AllocateOptions = {}): AllocationWithDust {
+  const plan = planAllocation(totalMinor, weights, opts);
+  return plan.negative
+    ? { shares: plan.shares.map((s) => -s), dust: -plan.dust }
+    : { shares: plan.shares, dust: plan.dust };
+}
+
+/** Split into `n` equal parts; the first parts absorb the remainder. splitEvenly(10n, 3) → [4n, 3n, 3n] */
+export function splitEvenly(totalMinor: bigint, n: number, opts: Omit<AllocateOptions, 'weights'> = {}): bigint[] {
+  if (!Number.isInteger(n) || n <= 0) throw new Error('splitEvenly: n must be a positive integer');
+  return allocate(totalMinor, Array.from({ length: n }, () => 1n), opts);
+}
+
+/* ---------------- internal helpers ---------------- */
+
+type Plan = {
+  negative: boolean;
+  weights: bigint[];
+  shares: bigint[];      // floored shares (absolute values)
+  remainders: bigint[];  // numerators of the fractional parts, comparable across parties
+  eligible: boolean[];   // may receive proportional dust
+  dust: bigint;
+};
+
+function planAllocation(totalMinor: bigint, weights: Weight[], opts: AllocateOptions): Plan {
+  if (!weights.length) throw new Error('allocate: weights must not be empty');
+  const ws = toIntegerWeights(weights);
+  const sum = ws.reduce((a, b) => a + b, 0n);
+  if (sum === 0n) throw new Error('allocate: weights must not all be zero');
+  if (opts.weights === 'bps' && sum !== 10_000n) throw new Error(`allocate: bps weights must sum to 10000, got ${sum}`);
+
+  const negative = totalMinor < 0n;
+  const total = negative ? -totalMinor : totalMinor;
+  const min = opts.minPerShare ?? 0n;
+  if (min < 0n) throw new Error('allocate: minPerShare must be >= 0');
+  const active = ws.map((w) => w > 0n);
+  const activeCount = BigInt(active.filter(Boolean).length);
+  if (min * activeCount > total) throw new Error(`allocate: total ${totalMinor} cannot cover minPerShare for ${activeCount} parties`);
+
+  // water-filling: parties whose proportional share falls below the minimum are pinned to it
+  const pinned = ws.map(() => false);
+  let rest = total;
+  let restWeight = sum;
+  for (;;) {
+    const newlyPinned = ws
+      .map((w, i) => (active[i] && !pinned[i] && rest * w < min * restWeight ? i : -1))
+      .filter((i) => i >= 0);
+    if (!newlyPinned.length) break;
+    for (const i of newlyPinned) {
+      pinned[i] = true;
+      rest -= min;
+      restWeight -= ws[i];
+    }
+  }
+
+  const shares = ws.map((w, i) => (pinned[i] ? min : restWeight > 0n ? (rest * w) / restWeight : 0n));
+  const remainders = ws.map((w, i) => (pinned[i] || restWeight === 0n ? 0n : (rest * w) % restWeight));
+  const eligible = ws.map((_, i) => active[i] && !pinned[i]);
+  const dust = total - shares.reduce((a, b) => a + b, 0n);
+  return { negative, weights: ws, shares, remainders, eligible, dust };
+}
+
+function dustOrder(plan: Plan, opts: AllocateOptions): number[] {
+  const n = plan.weights.length;
+  const indices = Array.from({ length: n }, (_, i) => i).filter((i) => plan.eligible[i]);
+  switch (opts.strategy ?? 'largestRemainder') {
+    case 'largestRemainder':
+      return indices.sort((a, b) => (plan.remainders[b] > plan.remainders[a] ? 1 : plan.remainders[b] < plan.remainders[a] ? -1 : a - b));
+    case 'firstN':
+      return indices;
+    case 'roundRobin': {
+      const start = opts.startIndex ?? 0;
+      if (!Number.isInteger(start) || start < 0) throw new Error('allocate: startIndex must be a non-negative integer');
+      return indices.sort((a, b) => rotate(a, start, n) - rotate(b, start, n));
+    }
+    case 'toIndex': {
+      const idx = opts.remainderIndex;
+      if (idx === undefined || !Number.isInteger(idx) || idx < 0 || idx >= n)
+        throw new Error('allocate: remainderIndex must point to one of the weights');
+      return [idx];
+    }
+    default:
+      throw new Error(`allocate: unknown strategy ${opts.strategy}`);
+  }
+}
+
+function rotate(i: number, start: number, n: number): number {
+  return (i - (start % n) + n) % n;
+}
+
+/** Bring bigint/number/decimal-string weights to a common integer scale. */
+function toIntegerWeights(weights: Weight[]): bigint[] {
+  const parsed = weights.map((w) => {
+    const n = normalizeAmountInput(typeof w === 'bigint' ? w.toString() : w);
+    if (n.sign < 0n && /[1-9]/.test(n.int + n.frac)) throw new Error(`allocate: weights must be >= 0, got ${w}`);
+    return n;
+  });
+  const scale = Math.max(...parsed.map((p) => p.frac.length));
+  return parsed.map((p) => BigInt(p.int + p.frac.padEnd(scale, '0')));
+}
@@ -0,0 +1,157 @@
+/**
+ * @defy-labs/precise-money — amm.ts
+ * Constant-product (x*y=k) pool quoting in pure BigInt, rounding exactly like
+ * UniswapV2Library: exact-in output is floored, exact-out input is floored + 1.
+ */
+
+import { mulDiv, slippageDown, slippageUp } from './core';
+
+const BPS_BASE = 10_000n;
+
+/** One hop: reserves oriented in the swap direction. `feeBps` defaults to 30 (0.30%). */
+export type ConstantProductPool = { reserveIn: bigint; reserveOut: bigint; feeBps?: number };
+
+/** Price as a `{ num, den }` ratio in human units (OUT per 1 IN), usable with `convertUnitsByDecimals`. */
+export type AmmPrice = { num: bigint; den: bigint };
+
+export type ExactInQuote = {
+  amountIn: bigint;
+  amountOut: bigint;
+  /** `amountOut` minus slippage (floored), to pass as amountOutMin. */
+  minAmountOut: bigint;
+  /** Amounts after every hop, starting with `amountIn`. */
+  amounts: bigint[];
+  priceImpactBps: number;
+};
+
+export type ExactOutQuote = {
+  amountIn: bigint;
+  amountOut: bigint;
+  /** `amountIn` plus slippage (ceiled), to pass as amountInMax. */
+  maxAmountIn: bigint;
+  amounts: bigint[];
+  priceImpactBps: number;
+};
+
+/** Output for an exact input: floor(in·(1−fee)·Rout / (Rin + in·(1−fee))). */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = 30): bigint {
+  if (amountIn <= 0n) throw new Error('getAmountOut: amountIn must be > 0');
+  assertReserves('getAmountOut', reserveIn, reserveOut);
+  const inWithFee = amountIn * feeFactor('getAmountOut', feeBps);
+  return (inWithFee * reserveOut) / (reserveIn * BPS_BASE + inWithFee);
+}
+
+/** Input required for an exact output: floor(Rin·out / ((Rout − out)·(1−fee))) + 1. */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = 30): bigint {
+  if (amountOut <= 0n) throw new Error('getAmountIn: amountOut must be > 0');
+  assertReserves('getAmountIn', reserveIn, reserveOut);
+  if (amountOut >= reserveOut) throw new Error('getAmountIn: insufficient liquidity');
+  const numerator = reserveIn * amountOut * BPS_BASE;
+  const denominator = (reserveOut - amountOut) * feeFactor('getAmountIn', feeBps);
+  return numerator / denominator + 1n;
+}
+
+/** Chain `getAmountOut` through every pool. Returns [amountIn, hop1Out, ..., finalOut]. */
+export function getAmountsOut(amountIn: bigint, pools: ConstantProductPool[]): bigint[] {
+  if (!pools.length) throw new Error('getAmountsOut: route must have at least one pool');
+  const amounts = [amountIn];
+  for (const p of pools) amounts.push(getAmountOut(amounts[amounts.length - 1], p.reserveIn, p.reserveOut, p.feeBps));
+  return amounts;
+}
+
+/** Walk the route backwards with `getAmountIn`. Returns [requiredIn, ..., amountOut]. */
+export function getAmountsIn(amountOut: bigint, pools: ConstantProductPool[]): bigint[] {
+  if (!pools.length) throw new Error('getAmountsIn: route must have at least one pool');
+  const amounts = [amountOut];
+  for (let i = pools.length - 1; i >= 0; i--) {
+    const p = pools[i];
+    amounts.unshift(getAmountIn(amounts[0], p.reserveIn, p.reserveOut, p.feeBps));
+  }
+  return amounts;
+}
+
+/**
+ * Spot (mid) price OUT per IN before the trade, in human units.
+ * convertUnitsByDecimals(amountIn, decIn, decOut, midPrice(...)) → amountIn·Rout/Rin.
+ */
+export function midPrice(reserveIn: bigint, reserveOut: bigint, decimalsIn: number, decimalsOut: number): AmmPrice {
+  assertReserves('midPrice', reserveIn, reserveOut);
+  return scaled(reserveOut, reserveIn, decimalsIn, decimalsOut);
+}
+
+/** Realized price OUT per IN of a trade (fees included), in human units. */
+export function executionPrice(amountIn: bigint, amountOut: bigint, decimalsIn: number, decimalsOut: number): AmmPrice {
+  if (amountIn <= 0n) throw new Error('executionPrice: amountIn must be > 0');
+  return scaled(amountOut, amountIn, decimalsIn, decimalsOut);
+}
+
+/** Mid price of a multi-hop route (product of the hop mid prices). */
+export function routeMidPrice(pools: ConstantProductPool[], decimalsIn: number, decimalsOut: number): AmmPrice {
+  if (!pools.length) throw new Error('routeMidPrice: route must have at least one pool');
+  let num = 1n;
+  let den = 1n;
+  for (const p of pools) {
+    assertReserves('routeMidPrice', p.reserveIn, p.reserveOut);
+    num *= p.reserveOut;
+    den *= p.reserveIn;
+  }
+  return scaled(num, den, decimalsIn, decimalsOut);
+}
+
+/**
+ * How much worse than the mid price the trade executes, in bps (fees included), rounded up.
+ * 0 when the execution price is at or above mid.
+ */
+export function priceImpactBps(amountIn: bigint, amountOut: bigint, pools: ConstantProductPool[]): number {
+  if (amountIn <= 0n) throw new Error('priceImpactBps: amountIn must be > 0');
+  const mid = routeMidPrice(pools, 0, 0);
+  // 1 − (out/in) / (num/den)
+  const expected = amountIn * mid.num;
+  const shortfall = expected - amountOut * mid.den;
+  if (shortfall <= 0n) return 0;
+  return Number(mulDiv(shortfall, BPS_BASE, expected, 'ceil'));
+}
+
+/** Exact-in quote through a route, with amountOutMin after slippage. */
+export function quoteExactIn(amountIn: bigint, pools: ConstantProductPool[], slippageBps = 0): ExactInQuote {
+  const amounts = getAmountsOut(amountIn, pools);
+  const amountOut = amounts[amounts.length - 1];
+  return {
+    amountIn,
+    amountOut,
+    minAmountOut: slippageDown(amountOut, slippageBps),
+    amounts,
+    priceImpactBps: priceImpactBps(amountIn, amountOut, pools),
+  };
+}
+
+/** Exact-out quote through a route, with amountInMax after slippage. */
+export function quoteExactOut(amountOut: bigint, pools: ConstantProductPool[], slippageBps = 0): ExactOutQuote {
+  const amounts = getAmountsIn(amountOut, pools);
+  const amountIn = amounts[0];
+  return {
+    amountIn,
+    amountOut,
+    maxAmountIn: slippageUp(amountIn, slippageBps),
+    amounts,
+    priceImpactBps: priceImpactBps(amountIn, amountOut, pools),
+  };
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function assertReserves(fn: string, reserveIn: bigint, reserveOut: bigint): void {
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error(`${fn}: insufficient liquidity`);
+}
+
+function feeFactor(fn: string, feeBps: number): bigint {
+  if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps >= 10_000) throw new Error(`${fn}: feeBps must be an integer in [0, 10000)`);
+  return BPS_BASE - BigInt(feeBps);
+}
+
+/** out/in in minor units → human OUT per 1 IN: (out·10^decIn) / (in·10^decOut). */
+function scaled(out: bigint, inp: bigint, decimalsIn: number, decimalsOut: number): AmmPrice {
+  if (!Number.isInteger(decimalsIn) || !Number.isInteger(decimalsOut) || decimalsIn < 0 || decimalsOut < 0)
+    throw new Error('amm: decimals must be non-negative integers');
+  return { num: out * 10n ** BigInt(decimalsIn), den: inp * 10n ** BigInt(decimalsOut) };
+}
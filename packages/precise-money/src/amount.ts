@@ -0,0 +1,151 @@
+/**
+ * @defy-labs/precise-money — amount.ts
+ * Immutable money value: minor units bound to an AssetId and its decimals.
+ * All arithmetic stays in BigInt; mixing assets or decimals is an error.
+ */
+
+import { toMinor, fromMinor, scaleUnits, type Rounding } from './core';
+import { DEC, assetIdKey, type AssetId } from './registry';
+import { allocate, type AllocateOptions, type Weight } from './allocate';
+
+export type AmountJSON = { asset: AssetId; decimals: number; minor: string; amount: string };
+
+export class Amount {
+  readonly minor: bigint;
+  readonly asset: Readonly<AssetId>;
+  readonly decimals: number;
+
+  private constructor(minor: bigint, asset: AssetId, decimals: number) {
+    if (typeof minor !== 'bigint') throw new Error('Amount: minor must be a bigint');
+    if (!asset || !asset.chain || typeof asset.symbol !== 'string') throw new Error('Amount: asset must be an AssetId');
+    if (!Number.isInteger(decimals) || decimals < 0) throw new Error('Amount: decimals must be a non-negative integer');
+    this.minor = minor;
+    this.asset = Object.freeze({ ...asset });
+    this.decimals = decimals;
+    Object.freeze(this);
+  }
+
+  /** Build from minor units. Decimals default to `DEC.lookup` (id → chain+symbol → symbol). */
+  static fromMinor(minor: bigint, asset: AssetId, decimals?: number): Amount {
+    return new Amount(minor, asset, decimals ?? resolveDecimals(asset));
+  }
+
+  /** Build from a human value such as "12.34" (rounded with `toMinor`, default 'round'). */
+  static of(human: string | number, asset: AssetId, decimals?: number, opts?: { mode?: Rounding }): Amount {
+    const dec = decimals ?? resolveDecimals(asset);
+    return new Amount(toMinor(human, dec, opts), asset, dec);
+  }
+
+  static zero(asset: AssetId, decimals?: number): Amount {
+    return Amount.fromMinor(0n, asset, decimals);
+  }
+
+  /**
+   * Parse the output of `toString()` back into an Amount ("1.500000 USDC").
+   * A trailing symbol is optional but must match the asset when present.
+   */
+  static parse(text: string, asset: AssetId, decimals?: number): Amount {
+    const dec = decimals ?? resolveDecimals(asset);
+    const m = /^\s*(\S+)(?:\s+(\S+))?\s*$/.exec(text);
+    if (!m) throw new Error(`Amount.parse: invalid amount: ${text}`);
+    if (m[2] !== undefined && m[2].toUpperCase() !== asset.symbol.toUpperCase())
+      throw new Error(`Amount.parse: symbol ${m[2]} does not match ${asset.symbol}`);
+    const minor = toMinor(m[1], dec, { mode: 'floor' });
+    if (minor !== toMinor(m[1], dec, { mode: 'ceil' }))
+      throw new Error(`Amount.parse: ${m[1]} has more than ${dec} decimals`);
+    return new Amount(minor, asset, dec);
+  }
+
+  static fromJSON(json: AmountJSON | string): Amount {
+    const j: AmountJSON = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!j || typeof j !== 'object') throw new Error('Amount.fromJSON: invalid payload');
+    if (typeof j.minor === 'string' && /^-?\d+$/.test(j.minor)) return new Amount(BigInt(j.minor), j.asset, j.decimals);
+    if (typeof j.amount === 'string') return Amount.parse(j.amount, j.asset, j.decimals);
+    throw new Error('Amount.fromJSON: missing minor/amount');
+  }
+
+  /** True when both amounts share the same AssetId and decimals. */
+  isSameAsset(other: Amount): boolean {
+    return assetIdKey(this.asset) === assetIdKey(other.asset) && this.decimals === other.decimals;
+  }
+
+  add(other: Amount): Amount {
+    this.assertCompatible(other, 'add');
+    return new Amount(this.minor + other.minor, this.asset, this.decimals);
+  }
+
+  sub(other: Amount): Amount {
+    this.assertCompatible(other, 'sub');
+    return new Amount(this.minor - other.minor, this.asset, this.decimals);
+  }
+
+  negate(): Amount {
+    return new Amount(-this.minor, this.asset, this.decimals);
+  }
+
+  abs(): Amount {
+    return this.minor < 0n ? this.negate() : this;
+  }
+
+  /** -1 | 0 | 1, like a sort comparator. */
+  compare(other: Amount): -1 | 0 | 1 {
+    this.assertCompatible(other, 'compare');
+    return this.minor < other.minor ? -1 : this.minor > other.minor ? 1 : 0;
+  }
+
+  equals(other: Amount): boolean {
+    return this.isSameAsset(other) && this.minor === other.minor;
+  }
+
+  lt(other: Amount): boolean { return this.compare(other) < 0; }
+  lte(other: Amount): boolean { return this.compare(other) <= 0; }
+  gt(other: Amount): boolean { return this.compare(other) > 0; }
+  gte(other: Amount): boolean { return this.compare(other) >= 0; }
+
+  isZero(): boolean { return this.minor === 0n; }
+  isNegative(): boolean { return this.minor < 0n; }
+  isPositive(): boolean { return this.minor > 0n; }
+
+  /**
+   * Split into parts proportional to `weights`; parts always sum to this amount.
+   * Dust goes to the largest remainders unless another strategy is given (see `allocate`).
+   */
+  allocate(weights: Weight[], opts?: AllocateOptions): Amount[] {
+    return allocate(this.minor, weights, opts).map((p) => new Amount(p, this.asset, this.decimals));
+  }
+
+  /** Explicit change of precision (e.g. 18 → 6); rounding only matters when scaling down. */
+  rescale(toDecimals: number, opts?: { mode?: Rounding }): Amount {
+    return new Amount(scaleUnits(this.minor, this.decimals, toDecimals, opts), this.asset, toDecimals);
+  }
+
+  /** Human string with the asset symbol, e.g. "1.500000 USDC". */
+  toString(): string {
+    return `${fromMinor(this.minor, this.decimals)} ${this.asset.symbol}`;
+  }
+
+  toJSON(): AmountJSON {
+    return {
+      asset: { ...this.asset },
+      decimals: this.decimals,
+      minor: this.minor.toString(),
+      amount: fromMinor(this.minor, this.decimals),
+    };
+  }
+
+  private assertCompatible(other: Amount, op: string): void {
+    if (!(other instanceof Amount)) throw new Error(`Amount.${op}: expected an Amount`);
+    if (assetIdKey(this.asset) !== assetIdKey(other.asset))
+      throw new Error(`Amount.${op}: asset mismatch (${this.asset.symbol} vs ${other.asset.symbol})`);
+    if (this.decimals !== other.decimals)
+      throw new Error(`Amount.${op}: decimals mismatch (${this.decimals} vs ${other.decimals}); rescale first`);
+  }
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function resolveDecimals(asset: AssetId): number {
+  const d = DEC.lookup(asset)?.decimals;
+  if (d === undefined) throw new Error(`Amount: unknown decimals for ${asset.symbol}; pass them explicitly`);
+  return d;
+}
@@ -0,0 +1,129 @@
+/**
+ * @defy-labs/precise-money — bounds.ts
+ * Integer ranges of on-chain amount types (u64, i64, i128, uint256, sdk.Int) and checks
+ * that reject negatives, overflow and amounts finer than the asset's decimals before
+ * they reach a transaction builder.
+ */
+
+import { normalizeAmountInput, toMinor, type Rounding } from './core';
+import type { Chain } from './registry';
+
+/** Inclusive integer range of an on-chain amount type. */
+export type IntegerBounds = Readonly<{ type: string; min: bigint; max: bigint }>;
+
+/** Amount kinds per chain; the first listed is the default. */
+export type ChainAmountKind = {
+  evm: 'uint256' | 'int256';
+  solana: 'u64';
+  stellar: 'classic' | 'soroban' | 'i128';
+  cosmos: 'coin' | 'int';
+};
+
+export type AmountRangeErrorCode = 'NOT_INTEGER' | 'NEGATIVE' | 'UNDERFLOW' | 'OVERFLOW' | 'NOT_REPRESENTABLE';
+
+/** Thrown when an amount cannot exist on the target chain; `code` is stable. */
+export class AmountRangeError extends Error {
+  readonly code: AmountRangeErrorCode;
+  readonly chain: Chain;
+  readonly kind: string;
+  readonly value: bigint | string | number;
+  readonly bounds: IntegerBounds;
+
+  constructor(code: AmountRangeErrorCode, chain: Chain, kind: string, value: bigint | string | number, bounds: IntegerBounds, message: string) {
+    super(message);
+    this.name = 'AmountRangeError';
+    this.code = code;
+    this.chain = chain;
+    this.kind = kind;
+    this.value = value;
+    this.bounds = bounds;
+  }
+}
+
+export const U64_MAX = (1n << 64n) - 1n;
+export const I64_MAX = (1n << 63n) - 1n;
+export const I128_MAX = (1n << 127n) - 1n;
+export const U256_MAX = (1n << 256n) - 1n;
+export const I256_MAX = (1n << 255n) - 1n;
+
+const bounds = (type: string, min: bigint, max: bigint): IntegerBounds => Object.freeze({ type, min, max });
+
+/**
+ * evm: ERC-20 balances are uint256.  solana: lamports and SPL amounts are u64.
+ * stellar: classic amounts are non-negative i64 stroops, SEP-41 tokens use i128.
+ * cosmos: sdk.Int is capped at 256 bits of magnitude; coin amounts are non-negative.
+ */
+export const CHAIN_AMOUNT_BOUNDS: Readonly<{ [C in Chain]: Readonly<Record<ChainAmountKind[C], IntegerBounds>> }> = Object.freeze({
+  evm: Object.freeze({
+    uint256: bounds('uint256', 0n, U256_MAX),
+    int256: bounds('int256', -I256_MAX - 1n, I256_MAX),
+  }),
+  solana: Object.freeze({
+    u64: bounds('u64', 0n, U64_MAX),
+  }),
+  stellar: Object.freeze({
+    classic: bounds('int64', 0n, I64_MAX),
+    soroban: bounds('i128', 0n, I128_MAX),
+    i128: bounds('i128', -I128_MAX - 1n, I128_MAX),
+  }),
+  cosmos: Object.freeze({
+    coin: bounds('sdk.Int', 0n, U256_MAX),
+    int: bounds('sdk.Int', -U256_MAX, U256_MAX),
+  }),
+});
+
+const DEFAULT_KIND: { [C in Chain]: ChainAmountKind[C] } = { evm: 'uint256', solana: 'u64', stellar: 'classic', cosmos: 'coin' };
+
+/** Bounds of `kind` on `chain` (default kind: uint256 / u64 / classic / coin). */
+export function chainBounds<C extends Chain>(chain: C, kind?: ChainAmountKind[C]): IntegerBounds {
+  const table = CHAIN_AMOUNT_BOUNDS[chain] as Record<string, IntegerBounds> | undefined;
+  if (!table) throw new Error(`chainBounds: unknown chain ${String(chain)}`);
+  const b = table[kind ?? DEFAULT_KIND[chain]];
+  if (!b) throw new Error(`chainBounds: unknown ${chain} amount kind ${String(kind)}`);
+  return b;
+}
+
+/** True when `amount` is an integer inside the bounds. */
+export function fitsChain<C extends Chain>(amount: bigint, chain: C, kind?: ChainAmountKind[C]): boolean {
+  const b = chainBounds(chain, kind);
+  return typeof amount === 'bigint' && amount >= b.min && amount <= b.max;
+}
+
+/**
+ * Throw `AmountRangeError` unless `amount` (minor units) fits the chain's integer type.
+ * assertFitsChain(2n ** 64n, 'solana') → AmountRangeError OVERFLOW ("solana u64: 18446744073709551616 exceeds the maximum …")
+ */
+export function assertFitsChain<C extends Chain>(amount: bigint, chain: C, kind?: ChainAmountKind[C]): bigint {
+  const k = kind ?? DEFAULT_KIND[chain];
+  const b = chainBounds(chain, k);
+  const where = `${chain} ${b.type}`;
+  if (typeof amount !== 'bigint')
+    throw new AmountRangeError('NOT_INTEGER', chain, k, amount, b, `${where}: amount must be a bigint, got ${typeof amount}`);
+  if (amount < b.min) {
+    const code = b.min === 0n ? 'NEGATIVE' : 'UNDERFLOW';
+    throw new AmountRangeError(code, chain, k, amount, b, `${where}: ${amount} is below the minimum ${b.min}`);
+  }
+  if (amount > b.max) throw new AmountRangeError('OVERFLOW', chain, k, amount, b, `${where}: ${amount} exceeds the maximum ${b.max}`);
+  return amount;
+}
+
+/**
+ * Checked `toMinor`: extra fraction digits are rejected (NOT_REPRESENTABLE) unless an
+ * explicit rounding `mode` is given, and the result must fit the chain's integer type.
+ */
+export function toMinorForChain<C extends Chain>(
+  human: string | number,
+  decimals: number,
+  chain: C,
+  opts: { kind?: ChainAmountKind[C]; mode?: Rounding } = {}
+): bigint {
+  if (!opts.mode) {
+    const digits = normalizeAmountInput(human).frac.replace(/0+$/, '').length;
+    if (digits > decimals) {
+      const k = opts.kind ?? DEFAULT_KIND[chain];
+      throw new AmountRangeError('NOT_REPRESENTABLE', chain, k, human, chainBounds(chain, k),
+        `${chain}: ${human} has ${digits} decimals but the asset has ${decimals}; pass a rounding mode to round it`);
+    }
+  }
+  return assertFitsChain(toMinor(human, decimals, { mode: opts.mode }), chain, opts.kind);
+}
@@ -0,0 +1,213 @@
+/**
+ * @defy-labs/precise-money — clmm.ts
+ * Concentrated-liquidity (Uniswap v3/v4-style) price math: TickMath, FullMath and
+ * Q64.96 / Q128.128 fixed point, bridged to the `{ num, den }` ratios used by core.
+ */
+
+import type { Rounding } from './core';
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+/** getSqrtRatioAtTick(MIN_TICK) */
+export const MIN_SQRT_RATIO = 4295128739n;
+/** getSqrtRatioAtTick(MAX_TICK) */
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+export const Q96 = 1n << 96n;
+export const Q128 = 1n << 128n;
+export const Q192 = 1n << 192n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/** Fixed-point formats supported by the Q helpers: Q64.96 and Q128.128. */
+export type QFormat = 96 | 128;
+
+/* ---------------- FullMath ---------------- */
+
+/** floor(a·b / d) with the uint256 domain checks of FullMath.mulDiv. */
+export function mulDivFloor(a: bigint, b: bigint, denominator: bigint): bigint {
+  assertUint256('mulDivFloor', a, b);
+  if (denominator <= 0n) throw new Error('mulDivFloor: denominator must be > 0');
+  const result = (a * b) / denominator;
+  if (result > MAX_UINT256) throw new Error('mulDivFloor: result overflows uint256');
+  return result;
+}
+
+/** ceil(a·b / d), like FullMath.mulDivRoundingUp. */
+export function mulDivCeil(a: bigint, b: bigint, denominator: bigint): bigint {
+  assertUint256('mulDivCeil', a, b);
+  if (denominator <= 0n) throw new Error('mulDivCeil: denominator must be > 0');
+  const p = a * b;
+  const result = p / denominator + (p % denominator === 0n ? 0n : 1n);
+  if (result > MAX_UINT256) throw new Error('mulDivCeil: result overflows uint256');
+  return result;
+}
+
+/** a·b in Q-format: mulDiv(a, b, 2^q). */
+export function qMul(a: bigint, b: bigint, q: QFormat, mode: 'floor' | 'ceil' = 'floor'): bigint {
+  return mode === 'ceil' ? mulDivCeil(a, b, qOne(q)) : mulDivFloor(a, b, qOne(q));
+}
+
+/** a/b in Q-format: mulDiv(a, 2^q, b). */
+export function qDiv(a: bigint, b: bigint, q: QFormat, mode: 'floor' | 'ceil' = 'floor'): bigint {
+  return mode === 'ceil' ? mulDivCeil(a, qOne(q), b) : mulDivFloor(a, qOne(q), b);
+}
+
+/** Encode a non-negative ratio as a Q-format integer. */
+export function ratioToQ(ratio: { num: bigint; den: bigint }, q: QFormat, mode: 'floor' | 'ceil' = 'floor'): bigint {
+  assertRatio('ratioToQ', ratio);
+  return qDiv(ratio.num, ratio.den, q, mode);
+}
+
+/** Decode a Q-format integer into an exact `{ num, den }` ratio. */
+export function qToRatio(x: bigint, q: QFormat): { num: bigint; den: bigint } {
+  if (x < 0n) throw new Error('qToRatio: value must be >= 0');
+  return { num: x, den: qOne(q) };
+}
+
+/* ---------------- TickMath ---------------- */
+
+// TickMath.sol: 2^128 / sqrt(1.0001)^(2^i), for i = 0..19
+const TICK_FACTORS: bigint[] = [
+  0xfffcb933bd6fad37aa2d162d1a594001n,
+  0xfff97272373d413259a46990580e213an,
+  0xfff2e50f5f656932ef12357cf3c7fdccn,
+  0xffe5caca7e10e4e61c3624eaa0941cd0n,
+  0xffcb9843d60f6159c9db58835c926644n,
+  0xff973b41fa98c081472e6896dfb254c0n,
+  0xff2ea16466c96a3843ec78b326b52861n,
+  0xfe5dee046a99a2a811c461f1969c3053n,
+  0xfcbe86c7900a88aedcffc83b479aa3a4n,
+  0xf987a7253ac413176f2b074cf7815e54n,
+  0xf3392b0822b70005940c7a398e4b70f3n,
+  0xe7159475a2c29b7443b29c7fa6e889d9n,
+  0xd097f3bdfd2022b8845ad8f792aa5825n,
+  0xa9f746462d870fdf8a65dc1f90e061e5n,
+  0x70d869a156d2a1b890bb3df62baf32f7n,
+  0x31be135f97d08fd981231505542fcfa6n,
+  0x9aa508b5b7a84e1c677de54f3e99bc9n,
+  0x5d6af8dedb81196699c329225ee604n,
+  0x2216e584f5fa1ea926041bedfe98n,
+  0x48a170391f7dc42444e8fa2n,
+];
+
+/** sqrt(1.0001^tick) · 2^96, bit-for-bit like TickMath.getSqrtRatioAtTick. */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) throw new Error(`getSqrtRatioAtTick: tick out of range: ${tick}`);
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 1 ? TICK_FACTORS[0] : Q128;
+  for (let i = 1; i < TICK_FACTORS.length; i++) {
+    if (absTick & (1 << i)) ratio = (ratio * TICK_FACTORS[i]) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+  // Q128.128 → Q64.96, rounding up so that getTickAtSqrtRatio(getSqrtRatioAtTick(t)) === t
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/** Greatest tick whose sqrt ratio is <= `sqrtPriceX96` (TickMath.getTickAtSqrtRatio). */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO)
+    throw new Error(`getTickAtSqrtRatio: sqrtPriceX96 out of range: ${sqrtPriceX96}`);
+  let lo = MIN_TICK;
+  let hi = MAX_TICK;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi + 1) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Nearest multiple of `tickSpacing` that stays within [MIN_TICK, MAX_TICK] (as in the v3 SDK). */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  if (!Number.isInteger(tickSpacing) || tickSpacing <= 0) throw new Error('nearestUsableTick: tickSpacing must be a positive integer');
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) throw new Error(`nearestUsableTick: tick out of range: ${tick}`);
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  return rounded;
+}
+
+/* ---------------- prices ---------------- */
+
+export type ClmmPriceOptions = {
+  /** Return token0 per token1 instead of token1 per token0. */
+  invert?: boolean;
+};
+
+/**
+ * Human price from pool state: token1 per 1 token0 (or the inverse), adjusted for decimals.
+ * convertUnitsByDecimals(amount0, decimals0, decimals1, ratio) → amount1 at the pool price;
+ * divToDecimalString(ratio.num, ratio.den, 6) → "1834.123456".
+ */
+export function sqrtPriceX96ToRatio(
+  sqrtPriceX96: bigint,
+  decimals0: number,
+  decimals1: number,
+  opts: ClmmPriceOptions = {}
+): { num: bigint; den: bigint } {
+  if (sqrtPriceX96 <= 0n) throw new Error('sqrtPriceX96ToRatio: sqrtPriceX96 must be > 0');
+  assertDecimals('sqrtPriceX96ToRatio', decimals0, decimals1);
+  const num = sqrtPriceX96 * sqrtPriceX96 * 10n ** BigInt(decimals0);
+  const den = Q192 * 10n ** BigInt(decimals1);
+  return opts.invert ? { num: den, den: num } : { num, den };
+}
+
+/** Inverse of `sqrtPriceX96ToRatio`: floor(sqrt(price_raw) · 2^96), or ceil with mode 'ceil'. */
+export function ratioToSqrtPriceX96(
+  ratio: { num: bigint; den: bigint },
+  decimals0: number,
+  decimals1: number,
+  opts: ClmmPriceOptions & { mode?: Extract<Rounding, 'floor' | 'ceil'> } = {}
+): bigint {
+  assertRatio('ratioToSqrtPriceX96', ratio);
+  assertDecimals('ratioToSqrtPriceX96', decimals0, decimals1);
+  if (ratio.num === 0n) throw new Error('ratioToSqrtPriceX96: price must be > 0');
+  const { num, den } = opts.invert ? { num: ratio.den, den: ratio.num } : ratio;
+  // raw token1/token0 price · 2^192 = num · 10^d1 · 2^192 / (den · 10^d0)
+  const n = num * 10n ** BigInt(decimals1) * Q192;
+  const d = den * 10n ** BigInt(decimals0);
+  const floorRoot = isqrt(n / d);
+  if (opts.mode !== 'ceil' || floorRoot * floorRoot * d === n) return floorRoot;
+  return floorRoot + 1n;
+}
+
+/** Human price at a tick (via `getSqrtRatioAtTick`, so it matches the pool's own rounding). */
+export function tickToRatio(tick: number, decimals0: number, decimals1: number, opts: ClmmPriceOptions = {}): { num: bigint; den: bigint } {
+  return sqrtPriceX96ToRatio(getSqrtRatioAtTick(tick), decimals0, decimals1, opts);
+}
+
+/** Tick containing the given human price: getTickAtSqrtRatio(ratioToSqrtPriceX96(...)). */
+export function ratioToTick(ratio: { num: bigint; den: bigint }, decimals0: number, decimals1: number, opts: ClmmPriceOptions = {}): number {
+  return getTickAtSqrtRatio(ratioToSqrtPriceX96(ratio, decimals0, decimals1, opts));
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function qOne(q: QFormat): bigint {
+  if (q !== 96 && q !== 128) throw new Error(`unsupported Q format: ${q}`);
+  return q === 96 ? Q96 : Q128;
+}
+
+function assertUint256(fn: string, a: bigint, b: bigint): void {
+  if (a < 0n || b < 0n || a > MAX_UINT256 || b > MAX_UINT256) throw new Error(`${fn}: operands must be uint256`);
+}
+
+function assertRatio(fn: string, r: { num: bigint; den: bigint }): void {
+  if (!r || r.den <= 0n || r.num < 0n) throw new Error(`${fn}: ratio must have num >= 0 and den > 0`);
+}
+
+function assertDecimals(fn: string, d0: number, d1: number): void {
+  if (!Number.isInteger(d0) || !Number.isInteger(d1) || d0 < 0 || d1 < 0) throw new Error(`${fn}: decimals must be non-negative integers`);
+}
+
+/** floor(sqrt(n)) by Newton's method. */
+function isqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = 1n << (BigInt(n.toString(2).length + 1) >> 1n);
+  for (;;) {
+    const y = (x + n / x) >> 1n;
+    if (y >= x) return x;
+    x = y;
+  }
+}
@@ -3,7 +3,12 @@
  * Pure BigInt math for cross-chain units. No chain SDKs, no ENV access.
  */
 
-export type Rounding = 'floor' | 'ceil' | 'round' | 'bankers';
+/**
+ * Rounding modes (directions are on the number line, so signs matter):
+ *  floor → toward -∞, ceil → toward +∞, trunc → toward zero, expand → away from zero,
+ *  round → half away from zero, halfDown → half toward zero, bankers → half to even.
+ */
+export type Rounding = 'floor' | 'ceil' | 'trunc' | 'expand' | 'round' | 'halfDown' | 'bankers';
 
 const POW10: bigint[] = Array.from({ length: 39 }, (_, i) => 10n ** BigInt(i));
 const BPS_BASE = 10_000n;
@@ -31,9 +36,11 @@ export function scaleUnits(u: bigint, fromDec: number, toDec: number, opts?: { m
  *  "1.234,56", "1_234.56", "  -12.3  "
  * into components: sign/int/frac  →  { sign: 1n|-1n, int: "1234", frac: "56" }
  * Strategy: detect the *last* '.' or ',' as decimal separator; all other separators are removed.
+ * Exponent notation ("1.5e-7") is expanded; numbers must be finite and within Number.MAX_SAFE_INTEGER.
+ * For locale-explicit parsing with error codes see `parseAmountStrict` (parse.ts).
  */
 export function normalizeAmountInput(x: string | number): { sign: 1n | -1n; int: string; frac: string } {
-  let s = typeof x === 'number' ? String(x) : x;
+  let s = typeof x === 'number' ? numberToString(x) : x;
   s = s.trim();
   if (s === '') throw new Error('empty amount');
 
@@ -45,6 +52,13 @@ export function normalizeAmountInput(x: string | number): { sign: 1n | -1n; int:
   // remove spaces/underscores
   s = s.replace(/\s+/g, '').replace(/_/g, '');
 
+  // exponent notation: digits with an optional '.' fraction, then e±N
+  const exp = /^(\d*)(?:\.(\d*))?e([+-]?\d+)$/i.exec(s);
+  if (exp) {
+    if (!/\d/.test((exp[1] ?? '') + (exp[2] ?? ''))) throw new Error(`invalid amount: ${x}`);
+    return { sign, ...shiftDecimalPoint(exp[1] ?? '', exp[2] ?? '', Number(exp[3])) };
+  }
+
   // detect decimal separator as the last '.' or ','
   const lastDot = s.lastIndexOf('.');
   const lastComma = s.lastIndexOf(',');
@@ -68,23 +82,18 @@ export function normalizeAmountInput(x: string | number): { sign: 1n | -1n; int:
 
 /**
  * Convert a human string/number (e.g. "12.345") to minor units bigint given decimals.
- * Default rounding is 'round' (half-up behavior).
+ * The whole fractional tail is rounded exactly like `divRound` (sign-aware).
+ * Default rounding is 'round' (half away from zero).
  */
 export function toMinor(human: string | number, decimals: number, opts?: { mode?: Rounding }): bigint {
   if (!Number.isInteger(decimals) || decimals < 0) throw new Error('toMinor: decimals must be non-negative integer');
   const { sign, int, frac } = normalizeAmountInput(human);
   const mode = opts?.mode ?? 'round';
 
-  // pad fraction to decimals+1 to capture a rounding digit
-  const padded = (frac + '0'.repeat(decimals + 1)).slice(0, decimals + 1);
-  const core = padded.slice(0, decimals);
-  const roundDigit = Number(padded.slice(decimals, decimals + 1) || '0');
-
-  let base = BigInt(int) * pow10(decimals) + BigInt(core || '0');
-  if (roundDigit > 0) {
-    base = roundAdjust(base, 1, mode); // add one "unit in last place" if rounding requires
-  }
-  return sign < 0n ? -base : base;
+  const digits = frac.replace(/0+$/, '');
+  const value = sign * BigInt(int + digits);
+  if (digits.length <= decimals) return value * pow10(decimals - digits.length);
+  return divRound(value, pow10(digits.length - decimals), mode);
 }
 
 /** Convert minor units bigint back to a human string with exactly `decimals` fractional digits. */
@@ -98,6 +107,14 @@ export function fromMinor(minor: bigint, decimals: number): string {
   return (neg ? '-' : '') + (decimals === 0 ? i.toString() : `${i}.${f}`);
 }
 
+/** Round minor units to a multiple of `increment` (e.g. 5 for CHF 0.05 cash rounding). */
+export function roundToIncrement(minor: bigint, increment: bigint | number, mode: Rounding = 'round'): bigint {
+  if (typeof increment === 'number' && !Number.isSafeInteger(increment)) throw new Error('roundToIncrement: increment must be an integer');
+  const inc = typeof increment === 'number' ? BigInt(increment) : increment;
+  if (inc <= 0n) throw new Error('roundToIncrement: increment must be > 0');
+  return divRound(minor, inc, mode) * inc;
+}
+
 /** Apply slippage (in basis points) to an *output* amount → returns minOut (floored). */
 export function applySlippage(amountOutMinor: bigint, slippageBps: number): bigint {
   if (!Number.isFinite(slippageBps) || slippageBps < 0) throw new Error('slippageBps must be >= 0');
@@ -123,7 +140,7 @@ export function splitAmount(totalMinor: bigint, lotSizeMinor: bigint): bigint[]
   return chunks;
 }
 
-/** Multiply then divide with rounding: floor/ceil/round/bankers. */
+/** Multiply then divide with any `Rounding` mode. */
 export function mulDiv(a: bigint, b: bigint | number, c: bigint | number, mode: Rounding = 'round'): bigint {
   const bb = typeof b === 'number' ? BigInt(b) : b;
   const cc = typeof c === 'number' ? BigInt(c) : c;
@@ -160,6 +177,7 @@ export function slippageUp(amountMinor: bigint, bps: number): bigint {
  * Build a price ratio from a human price string scaled to `quoteDecimals`.
  * Interprets `priceStr` as QUOTE per 1 BASE.
  * Returns { num, den } such that price = num/den (both integers).
+ * Digits beyond `quoteDecimals` are truncated; use `parsePriceRatio` (price.ts) for an exact ratio.
  */
 export function priceRatioDecimals(quoteDecimals: number, priceStr: string): { num: bigint; den: bigint } {
   if (!Number.isInteger(quoteDecimals) || quoteDecimals < 0) throw new Error('quoteDecimals must be non-negative integer');
@@ -172,7 +190,7 @@ export function priceRatioDecimals(quoteDecimals: number, priceStr: string): { n
 
 /**
  * Convert units using a price ratio and explicit decimals.
- * amount_from * (num/den) * 10^(toDec - fromDec)
+ * amount_from * (num/den) * 10^(toDec - fromDec), rounded once at the end.
  */
 export function convertUnitsByDecimals(
   amountUnits: bigint,
@@ -186,31 +204,29 @@ export function convertUnitsByDecimals(
   const diff = toDec - fromDec;
   const scaleNum = diff >= 0 ? pow10(diff) : 1n;
   const scaleDen = diff < 0 ? pow10(-diff) : 1n;
-  return mulDiv(mulDiv(amountUnits, price.num, price.den, mode), scaleNum, scaleDen, mode);
+  if (price.den === 0n) throw new Error('convertUnitsByDecimals: price denominator must not be zero');
+  return mulDiv(amountUnits, price.num * scaleNum, price.den * scaleDen, mode);
 }
 
 /**
  * Divide two bigints and return a decimal string with `scale` fractional digits.
- * Example: divToDecimalString(123n, 10n, 4) → "12.3000"
+ * The last digit is rounded with `mode` (default 'trunc', toward zero).
+ * Example: divToDecimalString(123n, 10n, 4) → "12.3000"; divToDecimalString(2n, 3n, 2, 'round') → "0.67"
  */
-export function divToDecimalString(numer: bigint, denom: bigint, scale = 8): string {
+export function divToDecimalString(numer: bigint, denom: bigint, scale = 8, mode: Rounding = 'trunc'): string {
   if (denom === 0n) throw new Error('division by zero');
   if (!Number.isInteger(scale) || scale < 0) throw new Error('scale must be a non-negative integer');
-  const neg = (numer < 0n) !== (denom < 0n);
-  const a = absBig(numer);
-  const b = absBig(denom);
-  const scaled = a * pow10(scale);
-  const i = scaled / b;
-  const s = i.toString().padStart(scale + 1, '0');
-  const head = s.slice(0, -scale) || '0';
-  const tail = s.slice(-scale);
-  return (neg ? '-' : '') + head + (scale > 0 ? '.' + tail : '');
+  const q = divRound(numer * pow10(scale), denom, mode);
+  const s = absBig(q).toString().padStart(scale + 1, '0');
+  const head = scale > 0 ? s.slice(0, -scale) : s;
+  const tail = scale > 0 ? '.' + s.slice(-scale) : '';
+  return (q < 0n ? '-' : '') + head + tail;
 }
 
 /**
  * Average FIAT price per OUT unit (string), using only BigInt math.
  * price = (spentFiatMinor / 10^fiatDecimals) / (filledQtyMinor / 10^outDecimals)
- * Returns a decimal string with `scale` fractional digits (default 8).
+ * Returns a decimal string with `scale` fractional digits (default 8), the last one rounded with `mode` (default 'trunc').
  */
 export function avgFiatPricePerUnit(params: {
     filledQtyMinor: bigint;
@@ -218,8 +234,9 @@ export function avgFiatPricePerUnit(params: {
     outDecimals: number;
     fiatDecimals: number;
     scale?: number;
+    mode?: Rounding;
   }): string {
-    const { filledQtyMinor, spentFiatMinor, outDecimals, fiatDecimals, scale = 8 } = params;
+    const { filledQtyMinor, spentFiatMinor, outDecimals, fiatDecimals, scale = 8, mode = 'trunc' } = params;
     if (filledQtyMinor <= 0n) throw new Error('avgFiatPricePerUnit: filledQtyMinor must be > 0');
     if (!Number.isInteger(outDecimals) || outDecimals < 0) throw new Error('avgFiatPricePerUnit: outDecimals must be a non-negative integer');
     if (!Number.isInteger(fiatDecimals) || fiatDecimals < 0) throw new Error('avgFiatPricePerUnit: fiatDecimals must be a non-negative integer');
@@ -228,7 +245,7 @@ export function avgFiatPricePerUnit(params: {
     // Correct: price = (spent * 10^outDec) / (filled * 10^fiatDec), formatted with `scale` by divToDecimalString
     const numer = spentFiatMinor * pow10(outDecimals);
     const denom = filledQtyMinor * pow10(fiatDecimals);
-    return divToDecimalString(numer, denom, scale);
+    return divToDecimalString(numer, denom, scale, mode);
 }
   
 /* ---------------- internal helpers ---------------- */
@@ -239,31 +256,52 @@ function divRound(n: bigint, d: bigint, mode: Rounding): bigint {
   const r = n % d;
   if (r === 0n) return q;
   const sign = (n > 0n) === (d > 0n) ? 1 : -1;
+  const away = q + BigInt(sign);
   switch (mode) {
     case 'floor':
-      return sign < 0 ? q - 1n : q;
+      return sign < 0 ? away : q;
     case 'ceil':
-      return sign > 0 ? q + 1n : q;
+      return sign > 0 ? away : q;
+    case 'trunc':
+      return q;
+    case 'expand':
+      return away;
     case 'round':
-      return absBig(r * 2n) >= absBig(d) ? q + BigInt(sign) : q;
+      return absBig(r * 2n) >= absBig(d) ? away : q;
+    case 'halfDown':
+      return absBig(r * 2n) > absBig(d) ? away : q;
     case 'bankers': {
       const twice = absBig(r * 2n);
-      if (twice > absBig(d)) return q + BigInt(sign);
+      if (twice > absBig(d)) return away;
       if (twice < absBig(d)) return q;
       // exactly .5 → round to even
-      return (q % 2n === 0n) ? q : q + BigInt(sign);
+      return (q % 2n === 0n) ? q : away;
     }
+    default:
+      throw new Error(`unknown rounding mode: ${mode}`);
   }
 }
 
-function roundAdjust(base: bigint, sign: -1 | 1, mode: Rounding): bigint {
-  switch (mode) {
-    case 'ceil':    return sign > 0 ? base + 1n : base;
-    case 'round':   return base + BigInt(sign);
-    case 'bankers': return (base % 2n === 0n) ? base : base + BigInt(sign);
-    case 'floor':
-    default:        return base;
-  }
+const MAX_EXPONENT = 1000;
+
+function numberToString(x: number): string {
+  if (!Number.isFinite(x)) throw new Error(`invalid amount: ${x} is not a finite number`);
+  if (Math.abs(x) > Number.MAX_SAFE_INTEGER)
+    throw new Error(`unsafe number ${x}: beyond Number.MAX_SAFE_INTEGER, pass the amount as a string`);
+  return String(x);
+}
+
+/** Move the decimal point of int.frac by `exp` places → normalized { int, frac }. */
+function shiftDecimalPoint(int: string, frac: string, exp: number): { int: string; frac: string } {
+  if (!Number.isSafeInteger(exp) || Math.abs(exp) > MAX_EXPONENT) throw new Error(`exponent out of range: ${exp}`);
+  const digits = int + frac;
+  const point = int.length + exp;
+  let i: string;
+  let f: string;
+  if (point <= 0) { i = '0'; f = '0'.repeat(-point) + digits; }
+  else if (point >= digits.length) { i = digits + '0'.repeat(point - digits.length); f = ''; }
+  else { i = digits.slice(0, point); f = digits.slice(point); }
+  return { int: i.replace(/^0+(?=\d)/, '') || '0', frac: f.replace(/0+$/, '') };
 }
 
 function absBig(x: bigint): bigint { return x < 0n ? -x : x; }
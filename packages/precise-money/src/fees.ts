@@ -0,0 +1,183 @@
+/**
+ * @defy-labs/precise-money — fees.ts
+ * Declarative fee schedules: bps + fixed components, min/max caps, customer and volume tiers.
+ * Every quote is itemized and balanced: gross === net + Σ fees, exactly.
+ */
+
+import { applyBps, toMinor, type Rounding } from './core';
+
+/** onTop → charged in addition to the amount; included → deducted from the amount. */
+export type FeeInclusion = 'onTop' | 'included';
+export type FeeSide = 'buy' | 'sell';
+
+/** Minor units (bigint, in the quote's decimals) or a human decimal string. */
+export type FeeValue = bigint | string;
+
+export type FeeComponents = {
+  /** Integer basis points of the amount. */
+  bps?: number;
+  fixed?: FeeValue;
+  min?: FeeValue;
+  max?: FeeValue;
+};
+
+export type FeeRule = FeeComponents & {
+  name: string;
+  /** Free-form label for reporting, e.g. 'platform' | 'network' | 'partner'. */
+  kind?: string;
+  inclusion: FeeInclusion;
+  /** Rounding of the bps part (and of human `fixed`/`min`/`max` values). */
+  mode: Rounding;
+  /** Only charge on this side. Default: both. */
+  side?: FeeSide;
+  /** Overrides per customer tier (`context.tier`). */
+  tiers?: Record<string, FeeComponents>;
+  /** Overrides by volume (`context.volume`, default the amount): the highest `from` <= volume wins. */
+  volumeTiers?: (FeeComponents & { from: FeeValue })[];
+};
+
+export type FeeContext = {
+  /** Decimals of the asset the amount (and every fee) is denominated in. */
+  decimals: number;
+  side?: FeeSide;
+  tier?: string;
+  /** Volume used to pick `volumeTiers` (minor units). Default: the amount. */
+  volume?: bigint;
+};
+
+export type FeeLine = { name: string; kind?: string; inclusion: FeeInclusion; amount: bigint };
+
+export type FeeQuote = {
+  /** The amount the quote was computed for. */
+  amount: bigint;
+  /** What the payer parts with: amount + on-top fees. */
+  gross: bigint;
+  /** What the recipient gets: amount − included fees. */
+  net: bigint;
+  totalFees: bigint;
+  fees: FeeLine[];
+};
+
+export interface FeeSchedule {
+  readonly rules: readonly FeeRule[];
+  /** Fees for `amount` (minor units). */
+  quote(amount: bigint, ctx: FeeContext): FeeQuote;
+  /**
+   * Smallest amount whose quote delivers at least `net` to the recipient (exactly `net` whenever reachable).
+   * Assumes net grows with the amount; with `volumeTiers` that raise the fee at a threshold the result
+   * still delivers at least `net`, but a smaller amount below the threshold may exist.
+   */
+  grossUp(net: bigint, ctx: FeeContext): FeeQuote;
+}
+
+export function createFeeSchedule(rules: FeeRule[]): FeeSchedule {
+  const list = Object.freeze(rules.map(validateRule));
+  const names = new Set(list.map((r) => r.name));
+  if (names.size !== list.length) throw new Error('createFeeSchedule: rule names must be unique');
+
+  function quote(amount: bigint, ctx: FeeContext): FeeQuote {
+    if (amount < 0n) throw new Error('FeeSchedule.quote: amount must be >= 0');
+    assertContext(ctx);
+    const q = price(amount, ctx);
+    if (q.net < 0n) throw new Error(`FeeSchedule.quote: included fees (${q.amount - q.net}) exceed the amount (${amount})`);
+    return q;
+  }
+
+  /** Unchecked quote: `net` is negative when included fees exceed the amount. */
+  function price(amount: bigint, ctx: FeeContext): FeeQuote {
+    const fees: FeeLine[] = [];
+    for (const rule of list) {
+      if (rule.side && ctx.side !== rule.side) continue;
+      const fee = computeFee(rule, amount, ctx);
+      fees.push({ name: rule.name, ...(rule.kind ? { kind: rule.kind } : {}), inclusion: rule.inclusion, amount: fee });
+    }
+    const onTop = sum(fees.filter((f) => f.inclusion === 'onTop'));
+    const included = sum(fees.filter((f) => f.inclusion === 'included'));
+    const net = amount - included;
+    // gross − net = onTop + included, by construction
+    return { amount, gross: amount + onTop, net, totalFees: onTop + included, fees };
+  }
+
+  function grossUp(targetNet: bigint, ctx: FeeContext): FeeQuote {
+    if (targetNet < 0n) throw new Error('FeeSchedule.grossUp: net must be >= 0');
+    assertContext(ctx);
+    const netOf = (a: bigint): bigint => price(a, ctx).net; // negative when fees exceed a small amount → not enough
+    let lo = targetNet;
+    if (netOf(lo) >= targetNet) return quote(lo, ctx);
+    let hi = lo * 2n + 1n;
+    for (let i = 0; netOf(hi) < targetNet; i++) {
+      if (i > 256) throw new Error('FeeSchedule.grossUp: included fees never leave the requested net');
+      lo = hi;
+      hi *= 2n;
+    }
+    // smallest amount with net >= target, as long as net is non-decreasing in the amount (see grossUp)
+    while (hi - lo > 1n) {
+      const mid = (lo + hi) / 2n;
+      if (netOf(mid) >= targetNet) hi = mid;
+      else lo = mid;
+    }
+    return quote(hi, ctx);
+  }
+
+  return { rules: list, quote, grossUp };
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function computeFee(rule: FeeRule, amount: bigint, ctx: FeeContext): bigint {
+  const c: FeeComponents = { bps: rule.bps, fixed: rule.fixed, min: rule.min, max: rule.max };
+  if (rule.volumeTiers?.length) {
+    const volume = ctx.volume ?? amount;
+    const hit = rule.volumeTiers
+      .map((t) => ({ t, from: minor(t.from, ctx.decimals, rule.mode) }))
+      .filter((x) => x.from <= volume)
+      .sort((a, b) => (a.from < b.from ? 1 : a.from > b.from ? -1 : 0))[0];
+    if (hit) Object.assign(c, stripFrom(hit.t));
+  }
+  if (ctx.tier !== undefined && rule.tiers?.[ctx.tier]) Object.assign(c, rule.tiers[ctx.tier]);
+
+  let fee = (c.bps ? applyBps(amount, c.bps, rule.mode) : 0n) + (c.fixed !== undefined ? minor(c.fixed, ctx.decimals, rule.mode) : 0n);
+  if (c.min !== undefined) {
+    const m = minor(c.min, ctx.decimals, rule.mode);
+    if (fee < m) fee = m;
+  }
+  if (c.max !== undefined) {
+    const m = minor(c.max, ctx.decimals, rule.mode);
+    if (fee > m) fee = m;
+  }
+  return fee;
+}
+
+function stripFrom(t: FeeComponents & { from: FeeValue }): FeeComponents {
+  const { from: _from, ...rest } = t;
+  return Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+}
+
+function minor(v: FeeValue, decimals: number, mode: Rounding): bigint {
+  return typeof v === 'bigint' ? v : toMinor(v, decimals, { mode });
+}
+
+function sum(lines: FeeLine[]): bigint {
+  return lines.reduce((a, f) => a + f.amount, 0n);
+}
+
+function assertContext(ctx: FeeContext): void {
+  if (!ctx || !Number.isInteger(ctx.decimals) || ctx.decimals < 0) throw new Error('FeeSchedule: context.decimals must be a non-negative integer');
+}
+
+function validateRule(rule: FeeRule, index: number): FeeRule {
+  const where = `createFeeSchedule: rule ${rule?.name ?? index}`;
+  if (!rule || typeof rule.name !== 'string' || !rule.name) throw new Error(`createFeeSchedule: rule ${index} needs a name`);
+  if (rule.inclusion !== 'onTop' && rule.inclusion !== 'included') throw new Error(`${where}: inclusion must be 'onTop' or 'included'`);
+  if (!rule.mode) throw new Error(`${where}: an explicit rounding mode is required`);
+  const parts: FeeComponents[] = [rule, ...Object.values(rule.tiers ?? {}), ...(rule.volumeTiers ?? [])];
+  for (const p of parts) {
+    if (p.bps !== undefined && (!Number.isInteger(p.bps) || p.bps < 0 || p.bps >= 10_000))
+      throw new Error(`${where}: bps must be an integer in [0, 10000)`);
+    for (const v of [p.fixed, p.min, p.max]) {
+      if (typeof v === 'bigint' && v < 0n) throw new Error(`${where}: fixed/min/max must be >= 0`);
+      if (typeof v === 'string' && v.trim().startsWith('-')) throw new Error(`${where}: fixed/min/max must be >= 0`);
+    }
+  }
+  return Object.freeze({ ...rule });
+}
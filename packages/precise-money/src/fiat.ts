@@ -0,0 +1,69 @@
+/**
+ * @defy-labs/precise-money — fiat.ts
+ * toMinor/fromMinor/format helpers that take an ISO 4217 code instead of raw decimals,
+ * with optional cash rounding (CHF 0.05, SEK 1.00, ...).
+ */
+
+import { toMinor, fromMinor, normalizeAmountInput, roundToIncrement, type Rounding } from './core';
+import { formatMinor, parseFormattedMinor, type FormatOptions, type LocaleName, type Separators } from './format';
+import { requireFiatCurrency } from './registry';
+
+export type FiatRoundingOptions = {
+  mode?: Rounding;
+  /** Round to the currency's cash increment (true) or to an explicit increment in minor units. */
+  cash?: boolean | bigint | number;
+};
+
+/** "12.34" USD → 1234n; "1500" JPY → 1500n; "1.2345" KWD → 1235n (3 decimals). */
+export function fiatToMinor(human: string | number, code: string, opts: FiatRoundingOptions = {}): bigint {
+  const c = requireFiatCurrency(code);
+  if (!opts.cash) return toMinor(human, c.exponent, { mode: opts.mode });
+  // round once, straight to the cash grid: digits past the exponent count ('0.245' DKK → 0n, not 25n → 50n)
+  const n = normalizeAmountInput(human);
+  const scale = 10n ** BigInt(Math.max(0, n.frac.length - c.exponent));
+  const exact = n.sign * BigInt(n.int + n.frac.padEnd(c.exponent, '0'));
+  return roundToIncrement(exact, cashIncrement(code, opts.cash) * scale, opts.mode ?? 'round') / scale;
+}
+
+export function fiatFromMinor(minor: bigint, code: string): string {
+  return fromMinor(minor, requireFiatCurrency(code).exponent);
+}
+
+/** Round minor units to the smallest cash denomination: cashRound(1233n, 'CHF') → 1235n. */
+export function cashRound(
+  minor: bigint,
+  code: string,
+  opts: { mode?: Rounding; increment?: boolean | bigint | number } = {}
+): bigint {
+  return roundToIncrement(minor, cashIncrement(code, opts.increment), opts.mode ?? 'round');
+}
+
+/**
+ * formatMinor with the currency's exponent and symbol, keeping all minor digits by default:
+ * formatFiat(123400n, 'BRL', { locale: 'pt-BR' }) → "R$1.234,00".
+ */
+export function formatFiat(minor: bigint, code: string, options: FormatOptions = {}): string {
+  const c = requireFiatCurrency(code);
+  const fixed = options.notation !== 'compact' && options.maxFractionDigits === undefined;
+  return formatMinor(minor, c.exponent, { currency: c.symbol, ...(fixed ? { minFractionDigits: c.exponent } : {}), ...options });
+}
+
+/** Inverse of `formatFiat` (same locale/currency options). */
+export function parseFiat(
+  text: string,
+  code: string,
+  options: { locale?: LocaleName | Separators; currency?: string; mode?: Rounding } = {}
+): bigint {
+  const c = requireFiatCurrency(code);
+  return parseFormattedMinor(text, c.exponent, { currency: c.symbol, ...options });
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function cashIncrement(code: string, increment: boolean | bigint | number | undefined): bigint {
+  const c = requireFiatCurrency(code);
+  if (typeof increment === 'bigint') return increment;
+  if (typeof increment !== 'number') return BigInt(c.cashIncrement ?? 1);
+  if (!Number.isSafeInteger(increment)) throw new Error('cashRound: increment must be an integer');
+  return BigInt(increment);
+}
@@ -0,0 +1,150 @@
+/**
+ * @defy-labs/precise-money — format.ts
+ * Locale-aware display formatting on top of minor units. Pure BigInt, no Intl/Number.
+ */
+
+import { scaleUnits, toMinor, type Rounding } from './core';
+
+export type LocaleName = 'en-US' | 'pt-BR' | 'de-DE' | 'fr-FR';
+export type Separators = { group: string; decimal: string };
+
+/** Group/decimal separators per supported locale (fr-FR groups with a narrow no-break space). */
+export const LOCALE_SEPARATORS: Readonly<Record<LocaleName, Readonly<Separators>>> = Object.freeze({
+  'en-US': Object.freeze({ group: ',', decimal: '.' }),
+  'pt-BR': Object.freeze({ group: '.', decimal: ',' }),
+  'de-DE': Object.freeze({ group: '.', decimal: ',' }),
+  'fr-FR': Object.freeze({ group: '\u202f', decimal: ',' }),
+});
+
+/**
+ * auto → "-1" / "1"; always → "-1" / "+1" / "+0"; exceptZero → "-1" / "+1" / "0";
+ * never → "1" for both; accounting → "(1)" for negatives.
+ */
+export type SignDisplay = 'auto' | 'always' | 'exceptZero' | 'never' | 'accounting';
+
+export type FormatOptions = {
+  /** Locale preset or custom separators. Default 'en-US'. */
+  locale?: LocaleName | Separators;
+  /**
+   * Keep at least this many fraction digits (trailing zeros are trimmed down to it). Default 0, except that
+   * a grouped integer keeps one ("1,234.0"), so `normalizeAmountInput` never reads its separator as a decimal point.
+   */
+  minFractionDigits?: number;
+  /** Round to at most this many fraction digits. Default `decimals` (1 in compact notation). */
+  maxFractionDigits?: number;
+  /** Rounding used when dropping fraction digits. Default 'round'. */
+  mode?: Rounding;
+  /** Insert group separators in the integer part. Default true. */
+  useGrouping?: boolean;
+  /** 'compact' renders 1.2K / 3.4M / 5.6B / 7.8T (display only, lossy). Default 'standard'. */
+  notation?: 'standard' | 'compact';
+  signDisplay?: SignDisplay;
+  /** Currency symbol or ticker, e.g. "R$" or "USDC". */
+  currency?: string;
+  /** Default 'prefix'. */
+  currencyPosition?: 'prefix' | 'suffix';
+  /** Space between currency and number. Default false for prefix, true for suffix. */
+  currencySpace?: boolean;
+};
+
+const COMPACT_SUFFIXES = ['', 'K', 'M', 'B', 'T'];
+
+/** Resolve a locale preset (or custom separators) into `{ group, decimal }`. */
+export function resolveSeparators(locale: LocaleName | Separators = 'en-US'): Separators {
+  const sep = typeof locale === 'string' ? LOCALE_SEPARATORS[locale] : locale;
+  if (!sep) throw new Error(`unsupported locale: ${String(locale)}`);
+  if (!sep.decimal || sep.decimal === sep.group) throw new Error('decimal separator must be non-empty and differ from group');
+  if (/[\d+\-()]/.test(sep.decimal + sep.group)) throw new Error('separators must not contain digits, signs or parentheses');
+  return { group: sep.group, decimal: sep.decimal };
+}
+
+/**
+ * Format minor units for display.
+ * Example: formatMinor(123456n, 2, { locale: 'pt-BR', currency: 'R$', currencySpace: true }) → "R$ 1.234,56"
+ */
+export function formatMinor(minor: bigint, decimals: number, options: FormatOptions = {}): string {
+  if (!Number.isInteger(decimals) || decimals < 0) throw new Error('formatMinor: decimals must be non-negative integer');
+  const sep = resolveSeparators(options.locale);
+  const compact = options.notation === 'compact';
+  const maxFrac = options.maxFractionDigits ?? (compact ? 1 : decimals);
+  const minFrac = options.minFractionDigits ?? 0;
+  if (!Number.isInteger(maxFrac) || maxFrac < 0) throw new Error('formatMinor: maxFractionDigits must be a non-negative integer');
+  if (!Number.isInteger(minFrac) || minFrac < 0 || minFrac > maxFrac)
+    throw new Error('formatMinor: minFractionDigits must be an integer in [0, maxFractionDigits]');
+  const mode = options.mode ?? 'round';
+
+  // pick the compact unit, bumping once more if rounding carries into the next one (999.96K → 1M)
+  let unit = 0;
+  if (compact) {
+    const abs = minor < 0n ? -minor : minor;
+    while (unit < COMPACT_SUFFIXES.length - 1 && abs >= 10n ** BigInt(decimals + 3 * (unit + 1))) unit++;
+  }
+  let scaled = scaleUnits(minor, decimals + 3 * unit, maxFrac, { mode });
+  if (compact && unit < COMPACT_SUFFIXES.length - 1 && absBig(scaled) >= 1000n * 10n ** BigInt(maxFrac)) {
+    unit++;
+    scaled = scaleUnits(minor, decimals + 3 * unit, maxFrac, { mode });
+  }
+
+  const digits = absBig(scaled).toString().padStart(maxFrac + 1, '0');
+  const intPart = maxFrac > 0 ? digits.slice(0, -maxFrac) : digits;
+  let fracPart = maxFrac > 0 ? digits.slice(-maxFrac) : '';
+  while (fracPart.length > minFrac && fracPart.endsWith('0')) fracPart = fracPart.slice(0, -1);
+
+  const grouped = options.useGrouping === false ? intPart : intPart.replace(/\B(?=(\d{3})+(?!\d))/g, sep.group);
+  if (grouped !== intPart && !fracPart && options.minFractionDigits === undefined) fracPart = '0';
+  let body = grouped + (fracPart ? sep.decimal + fracPart : '') + COMPACT_SUFFIXES[unit];
+
+  if (options.currency) {
+    const suffix = options.currencyPosition === 'suffix';
+    const gap = (options.currencySpace ?? suffix) ? ' ' : '';
+    body = suffix ? body + gap + options.currency : options.currency + gap + body;
+  }
+
+  const neg = scaled < 0n;
+  switch (options.signDisplay ?? 'auto') {
+    case 'auto':       return neg ? '-' + body : body;
+    case 'always':     return (neg ? '-' : '+') + body;
+    case 'exceptZero': return scaled === 0n ? body : (neg ? '-' : '+') + body;
+    case 'never':      return body;
+    case 'accounting': return neg ? `(${body})` : body;
+    default:           throw new Error(`formatMinor: unknown signDisplay ${options.signDisplay}`);
+  }
+}
+
+/**
+ * Parse the output of `formatMinor` (same locale/currency options) back into minor units.
+ * The text is reduced to a plain "-1234.56" and handed to `toMinor`/`normalizeAmountInput`.
+ * Compact suffixes are expanded, but compact output is already rounded, so it is lossy.
+ */
+export function parseFormattedMinor(
+  text: string,
+  decimals: number,
+  options: Pick<FormatOptions, 'locale' | 'currency'> & { mode?: Rounding } = {}
+): bigint {
+  const sep = resolveSeparators(options.locale);
+  let s = text.trim();
+  let neg = false;
+  const acct = /^\((.*)\)$/.exec(s);
+  if (acct) { neg = true; s = acct[1].trim(); }
+  if (s[0] === '-' || s[0] === '+') { neg = neg || s[0] === '-'; s = s.slice(1).trim(); }
+  if (options.currency) s = s.split(options.currency).join('').trim();
+
+  let unit = 0;
+  const suffix = /([KMBT])$/i.exec(s);
+  if (suffix) {
+    unit = COMPACT_SUFFIXES.indexOf(suffix[1].toUpperCase());
+    s = s.slice(0, -1);
+  }
+
+  if (sep.group) s = s.split(sep.group).join('');
+  if (/^\s$/.test(sep.group)) s = s.replace(/\s+/g, '');
+  s = s.split(sep.decimal).join('.');
+  if (!/^\d*\.?\d*$/.test(s) || s === '' || s === '.') throw new Error(`parseFormattedMinor: invalid amount: ${text}`);
+
+  const units = toMinor(s, decimals + 3 * unit, { mode: options.mode });
+  return neg ? -units : units;
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function absBig(x: bigint): bigint { return x < 0n ? -x : x; }
@@ -0,0 +1,217 @@
+/**
+ * @defy-labs/precise-money — importers.ts
+ * Turn already-fetched token/asset lists into validated registry entries.
+ * No network access: callers fetch (or load fixtures) and pass the JSON/TOML in.
+ */
+
+import { createRegistry, AssetConflictError, type AssetEntry, type AssetRegistry } from './registry';
+
+export type RejectedAsset = { index: number; item: unknown; reason: string };
+export type ImportResult = { entries: AssetEntry[]; rejected: RejectedAsset[] };
+export type ImportOptions = {
+  /** When given, accepted entries are also registered there (conflicts end up in `rejected`). */
+  registry?: AssetRegistry;
+};
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const BASE58_MINT = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const STELLAR_ISSUER = /^G[A-Z2-7]{55}$/;
+const STELLAR_CONTRACT = /^C[A-Z2-7]{55}$/;
+const STELLAR_CODE = /^[a-zA-Z0-9]{1,12}$/;
+const IBC_DENOM = /^ibc\/[0-9A-F]{64}$/;
+
+/**
+ * Uniswap Token List schema (https://tokenlists.org): `{ tokens: [{ chainId, address, symbol, name, decimals, tags? }] }`.
+ */
+export function importUniswapTokenList(json: unknown, opts: ImportOptions = {}): ImportResult {
+  return collect(listOf(json, 'tokens'), opts, (t) => {
+    if (!Number.isSafeInteger(t.chainId) || t.chainId <= 0) return 'chainId must be a positive integer';
+    if (typeof t.address !== 'string' || !EVM_ADDRESS.test(t.address)) return 'address must be a 0x-prefixed 20-byte hex string';
+    const common = commonFields(t);
+    if (typeof common === 'string') return common;
+    return { chain: 'evm', chainId: t.chainId, address: t.address, ...common };
+  });
+}
+
+/**
+ * Solana token-list format: `{ tokens: [{ chainId, address (mint), symbol, name, decimals, tags? }] }`.
+ */
+export function importSolanaTokenList(json: unknown, opts: ImportOptions = {}): ImportResult {
+  return collect(listOf(json, 'tokens'), opts, (t) => {
+    if (typeof t.address !== 'string' || !BASE58_MINT.test(t.address)) return 'address must be a base58 mint';
+    if (t.chainId !== undefined && !Number.isSafeInteger(t.chainId)) return 'chainId must be an integer';
+    const common = commonFields(t);
+    if (typeof common === 'string') return common;
+    return { chain: 'solana', ...(t.chainId !== undefined ? { chainId: t.chainId } : {}), address: t.address, ...common };
+  });
+}
+
+/**
+ * Cosmos chain-registry `assetlist.json`: decimals are the exponent of the `display` unit.
+ * IBC assets are tagged 'ibc', `origin:<chain_name>` and `base-denom:<denom>` from their trace.
+ */
+export function importCosmosAssetList(json: unknown, opts: ImportOptions & { chainId?: string } = {}): ImportResult {
+  return collect(listOf(json, 'assets'), opts, (a) => {
+    if (typeof a.base !== 'string' || !a.base) return 'base denom is required';
+    if (a.base.startsWith('ibc/') && !IBC_DENOM.test(a.base)) return 'ibc denom must be ibc/<64 uppercase hex>';
+    if (typeof a.symbol !== 'string' || !a.symbol) return 'symbol is required';
+    if (!Array.isArray(a.denom_units) || !a.denom_units.length) return 'denom_units is required';
+    const display = typeof a.display === 'string' ? a.display : undefined;
+    if (!display) return 'display unit is required';
+    const unit = a.denom_units.find((u: any) => u?.denom === display || (Array.isArray(u?.aliases) && u.aliases.includes(display)));
+    if (!unit) return `display unit ${display} not found in denom_units`;
+    if (!Number.isInteger(unit.exponent) || unit.exponent < 0 || unit.exponent > 255) return 'display exponent must be an integer in [0, 255]';
+    const base = a.denom_units.find((u: any) => u?.denom === a.base);
+    if (base && base.exponent !== 0) return 'base unit must have exponent 0';
+
+    const tags: string[] = [];
+    const ibc = Array.isArray(a.traces) ? a.traces.find((t: any) => t?.type === 'ibc' || t?.type === 'ibc-cw20') : undefined;
+    if (ibc || a.base.startsWith('ibc/')) tags.push('ibc');
+    if (ibc?.counterparty?.chain_name) tags.push(`origin:${ibc.counterparty.chain_name}`);
+    if (ibc?.counterparty?.base_denom) tags.push(`base-denom:${ibc.counterparty.base_denom}`);
+    if (typeof a.type_asset === 'string') tags.push(a.type_asset);
+
+    return {
+      chain: 'cosmos',
+      ...(opts.chainId ? { chainId: opts.chainId } : {}),
+      symbol: a.symbol,
+      denom: a.base,
+      decimals: unit.exponent,
+      ...(typeof a.name === 'string' ? { name: a.name } : {}),
+      ...(tags.length ? { tags } : {}),
+    };
+  });
+}
+
+/**
+ * `stellar.toml` `[[CURRENCIES]]` blocks. Classic assets (code + issuer) always have 7 decimals;
+ * `display_decimals` is kept as `displayDecimals`. Contract-only (Soroban) currencies need
+ * `contractDecimals`, since the TOML does not carry on-chain decimals.
+ */
+export function importStellarToml(toml: string, opts: ImportOptions & { contractDecimals?: number } = {}): ImportResult {
+  return collect(parseTomlCurrencies(toml), opts, (c) => {
+    if (typeof c.code !== 'string' || !STELLAR_CODE.test(c.code)) return 'code must be 1-12 alphanumeric characters';
+    if (c.issuer !== undefined && (typeof c.issuer !== 'string' || !STELLAR_ISSUER.test(c.issuer))) return 'issuer must be a G... account id';
+    if (c.contract !== undefined && (typeof c.contract !== 'string' || !STELLAR_CONTRACT.test(c.contract))) return 'contract must be a C... contract id';
+    if (!c.issuer && !c.contract) return 'issuer or contract is required';
+    if (c.display_decimals !== undefined && (!Number.isInteger(c.display_decimals) || c.display_decimals < 0 || c.display_decimals > 7))
+      return 'display_decimals must be an integer in [0, 7]';
+    const decimals = c.issuer ? 7 : opts.contractDecimals;
+    if (decimals === undefined) return 'contract-only currency: decimals must be fetched on-chain (pass contractDecimals)';
+
+    const tags: string[] = [c.issuer ? 'classic' : 'soroban'];
+    if (c.is_asset_anchored === true) tags.push('anchored');
+    if (typeof c.status === 'string') tags.push(`status:${c.status}`);
+    return {
+      chain: 'stellar',
+      symbol: c.code,
+      ...(c.issuer ? { issuer: c.issuer } : {}),
+      ...(c.contract ? { address: c.contract } : {}),
+      decimals,
+      ...(typeof c.name === 'string' ? { name: c.name } : {}),
+      ...(c.display_decimals !== undefined ? { displayDecimals: c.display_decimals } : {}),
+      tags,
+    };
+  });
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function listOf(json: unknown, field: string): unknown[] {
+  const doc = typeof json === 'string' ? JSON.parse(json) : json;
+  const list = (doc as any)?.[field];
+  if (!Array.isArray(list)) throw new Error(`expected a list document with a "${field}" array`);
+  return list;
+}
+
+function commonFields(t: any): Pick<AssetEntry, 'symbol' | 'decimals' | 'name' | 'tags'> | string {
+  if (typeof t.symbol !== 'string' || !t.symbol.trim()) return 'symbol is required';
+  if (!Number.isInteger(t.decimals) || t.decimals < 0 || t.decimals > 255) return 'decimals must be an integer in [0, 255]';
+  const tags = Array.isArray(t.tags) ? t.tags.filter((x: unknown) => typeof x === 'string') : [];
+  return {
+    symbol: t.symbol,
+    decimals: t.decimals,
+    ...(typeof t.name === 'string' ? { name: t.name } : {}),
+    ...(tags.length ? { tags } : {}),
+  };
+}
+
+/** Validate every item, detect duplicates within the list, then register into the target registry. */
+function collect(items: unknown[], opts: ImportOptions, toEntry: (item: any) => AssetEntry | string): ImportResult {
+  const seen = createRegistry();
+  const entries: AssetEntry[] = [];
+  const rejected: RejectedAsset[] = [];
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object') return rejected.push({ index, item, reason: 'entry must be an object' });
+    const entry = toEntry(item);
+    if (typeof entry === 'string') return rejected.push({ index, item, reason: entry });
+    try {
+      seen.register(entry);
+      opts.registry?.register(entry);
+      entries.push(entry);
+    } catch (e) {
+      if (!(e instanceof AssetConflictError)) throw e;
+      rejected.push({ index, item, reason: e.message });
+    }
+  });
+  return { entries, rejected };
+}
+
+/** Minimal TOML reader: collects `key = value` pairs of every `[[CURRENCIES]]` table. */
+function parseTomlCurrencies(text: string): Record<string, unknown>[] {
+  const out: Record<string, unknown>[] = [];
+  let current: Record<string, unknown> | null = null;
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripComment(lines[i]).trim();
+    if (!line) continue;
+    if (line.startsWith('[')) {
+      current = line === '[[CURRENCIES]]' ? {} : null;
+      if (current) out.push(current);
+      continue;
+    }
+    const eq = line.indexOf('=');
+    if (eq < 0 || !current) continue;
+    const key = line.slice(0, eq).trim().replace(/^"(.*)"$/, '$1');
+    let raw = line.slice(eq + 1).trim();
+    if (raw.startsWith('"""')) {
+      // multi-line basic string: keep reading until the closing delimiter
+      while (!raw.slice(3).includes('"""') && i + 1 < lines.length) raw += '\n' + lines[++i];
+      current[key] = raw.slice(3, raw.indexOf('"""', 3)).replace(/^\n/, '');
+      continue;
+    }
+    current[key] = tomlValue(raw);
+  }
+  return out;
+}
+
+function tomlValue(raw: string): unknown {
+  if (raw.startsWith('"')) return JSON.parse(raw.slice(0, closingQuote(raw) + 1));
+  if (raw.startsWith("'")) return raw.slice(1, raw.indexOf("'", 1));
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  if (/^[+-]?\d[\d_]*$/.test(raw)) return Number(raw.replace(/_/g, ''));
+  if (/^[+-]?\d[\d_]*(\.\d+)?([eE][+-]?\d+)?$/.test(raw)) return Number(raw.replace(/_/g, ''));
+  if (raw.startsWith('[')) return raw.slice(1, raw.lastIndexOf(']')).split(',').map((s) => s.trim()).filter(Boolean).map(tomlValue);
+  return raw;
+}
+
+function closingQuote(raw: string): number {
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i] === '\\') i++;
+    else if (raw[i] === '"') return i;
+  }
+  return raw.length - 1;
+}
+
+function stripComment(line: string): string {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '#') return line.slice(0, i);
+  }
+  return line;
+}
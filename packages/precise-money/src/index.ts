@@ -1,5 +1,23 @@
 export * from './core';
 export * from './registry';
+export * from './importers';
+export * from './allocate';
+export * from './fees';
+export * from './market';
+export * from './ledger';
+export * from './lending';
+export * from './amount';
+export * from './format';
+export * from './fiat';
+export * from './invoice';
+export * from './parse';
+export * from './resolver';
+export * from './price';
+export * from './rational';
+export * from './amm';
+export * from './clmm';
+export * from './bounds';
+export * from './route';
 export * from './adapters/stellar';
 export * from './adapters/evm';
 export * from './adapters/solana';
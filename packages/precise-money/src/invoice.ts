@@ -0,0 +1,267 @@
+/**
+ * @defy-labs/precise-money — invoice.ts
+ * Invoice totals from line items: quantities × unit prices, line and invoice discounts,
+ * exclusive or inclusive taxes at several rates, rounded per line or once per invoice.
+ * The breakdown always reconciles: lines sum to the totals and totals balance exactly.
+ */
+
+import { mulDiv, toMinor, type Rounding } from './core';
+import { allocate } from './allocate';
+import { requireFiatCurrency } from './registry';
+import { Rational, gcd } from './rational';
+
+/**
+ * perLine  → each line's taxes are rounded, the invoice taxes are their sums
+ * perTotal → each tax is rounded once on the invoice total, then split back over the lines
+ */
+export type InvoiceRounding = 'perLine' | 'perTotal';
+
+/** Minor units (bigint) or a human decimal string in the invoice currency. */
+export type InvoiceValue = bigint | string;
+
+/** A percentage (`percent: '10'` = 10%) or an absolute amount. */
+export type InvoiceDiscount = { percent: string | number } | { amount: InvoiceValue };
+
+export type TaxRate = {
+  name: string;
+  /** Percentage, e.g. '18', '1.65', '8.875'. */
+  percent: string | number;
+};
+
+export type InvoiceLine = {
+  description?: string;
+  /** Decimal quantities are allowed ('2.5' kg). */
+  quantity: bigint | number | string;
+  /** Per unit; a human string may be finer than the currency ('0.125'). Includes tax when `taxInclusive`. */
+  unitPrice: InvoiceValue;
+  discount?: InvoiceDiscount;
+  /** Names of the taxes this line pays. Default: every rate; [] exempts the line. */
+  taxes?: string[];
+};
+
+export type InvoiceOptions = {
+  /** ISO 4217 code; sets `decimals` from the currency exponent. */
+  currency?: string;
+  decimals?: number;
+  rounding?: InvoiceRounding;
+  /** Default 'round'. */
+  mode?: Rounding;
+  /** Unit prices include the taxes (gross − discount = total). Default false. */
+  taxInclusive?: boolean;
+  taxes?: TaxRate[];
+};
+
+export type InvoiceLineTax = { name: string; amount: bigint };
+
+/** Minor units. Exclusive: gross − discount = net. Inclusive: gross − discount = total. Always total = net + tax. */
+export type InvoiceLineResult = {
+  description?: string;
+  quantity: Rational;
+  /** Unit price in minor units, exact. */
+  unitPrice: Rational;
+  gross: bigint;
+  lineDiscount: bigint;
+  /** This line's share of the invoice discount. */
+  invoiceDiscount: bigint;
+  discount: bigint;
+  /** Taxable base, tax excluded. */
+  net: bigint;
+  taxes: InvoiceLineTax[];
+  tax: bigint;
+  total: bigint;
+};
+
+export type InvoiceTaxTotal = { name: string; percent: string; base: bigint; amount: bigint };
+
+export type InvoiceBreakdown = {
+  currency?: string;
+  decimals: number;
+  rounding: InvoiceRounding;
+  taxInclusive: boolean;
+  lines: InvoiceLineResult[];
+  gross: bigint;
+  lineDiscount: bigint;
+  invoiceDiscount: bigint;
+  discount: bigint;
+  net: bigint;
+  /** One entry per rate charged on at least one line, in declaration order. */
+  taxes: InvoiceTaxTotal[];
+  tax: bigint;
+  total: bigint;
+};
+
+export interface InvoiceCalculator {
+  readonly options: Readonly<InvoiceOptions>;
+  /** Price `lines`; an invoice-level `discount` is split over the lines by their discounted amounts. */
+  calculate(lines: InvoiceLine[], opts?: { discount?: InvoiceDiscount }): InvoiceBreakdown;
+}
+
+type Rate = { name: string; percent: string; r: Rational };
+
+export function createInvoiceCalculator(options: InvoiceOptions = {}): InvoiceCalculator {
+  const decimals = invoiceDecimals(options);
+  const rounding = options.rounding ?? 'perLine';
+  if (rounding !== 'perLine' && rounding !== 'perTotal') throw new Error(`createInvoiceCalculator: unknown rounding ${String(rounding)}`);
+  const mode = options.mode ?? 'round';
+  const taxInclusive = options.taxInclusive ?? false;
+  const rates: Rate[] = (options.taxes ?? []).map((t) => {
+    if (!t || typeof t.name !== 'string' || !t.name) throw new Error('createInvoiceCalculator: every tax needs a name');
+    return { name: t.name, percent: String(t.percent), r: percentOf(t.percent, `createInvoiceCalculator: tax ${t.name}`) };
+  });
+  if (new Set(rates.map((t) => t.name)).size !== rates.length) throw new Error('createInvoiceCalculator: tax names must be unique');
+  const opts = Object.freeze({ ...options, decimals, rounding, mode, taxInclusive });
+
+  const round = (x: Rational): bigint => mulDiv(x.num, 1n, x.den, mode);
+  const value = (v: InvoiceValue, what: string): bigint => {
+    const m = typeof v === 'bigint' ? v : toMinor(v, decimals, { mode });
+    if (m < 0n) throw new Error(`Invoice.calculate: ${what} must be >= 0`);
+    return m;
+  };
+  const discountOf = (base: bigint, d: InvoiceDiscount | undefined, what: string): bigint => {
+    if (!d) return 0n;
+    const amount = 'percent' in d ? round(percentOf(d.percent, `Invoice.calculate: ${what}`).mul(base)) : value(d.amount, what);
+    if (amount > base) throw new Error(`Invoice.calculate: ${what} (${amount}) exceeds the amount it applies to (${base})`);
+    return amount;
+  };
+
+  function calculate(lines: InvoiceLine[], o: { discount?: InvoiceDiscount } = {}): InvoiceBreakdown {
+    if (!Array.isArray(lines) || !lines.length) throw new Error('Invoice.calculate: lines must not be empty');
+
+    // 1) line amounts, rounded to the currency
+    const priced = lines.map((line, i) => {
+      const quantity = Rational.of(line.quantity);
+      if (quantity.sign() < 0) throw new Error(`Invoice.calculate: line ${i} quantity must be >= 0`);
+      const unitPrice = typeof line.unitPrice === 'bigint' ? Rational.of(line.unitPrice) : Rational.of(line.unitPrice).mul(10n ** BigInt(decimals));
+      if (unitPrice.sign() < 0) throw new Error(`Invoice.calculate: line ${i} unitPrice must be >= 0`);
+      const gross = round(quantity.mul(unitPrice));
+      const lineDiscount = discountOf(gross, line.discount, `line ${i} discount`);
+      const names = line.taxes ?? rates.map((t) => t.name);
+      const lineRates = names.map((n) => {
+        const t = rates.find((x) => x.name === n);
+        if (!t) throw new Error(`Invoice.calculate: line ${i} references unknown tax ${n}`);
+        return t;
+      });
+      if (new Set(names).size !== names.length) throw new Error(`Invoice.calculate: line ${i} lists a tax twice`);
+      return { line, quantity, unitPrice, gross, lineDiscount, rates: lineRates };
+    });
+
+    // 2) invoice discount, split by what each line still owes so the shares reconcile
+    const amounts = priced.map((p) => p.gross - p.lineDiscount);
+    const base = sum(amounts);
+    const invoiceDiscount = discountOf(base, o.discount, 'invoice discount');
+    const shares = invoiceDiscount > 0n ? allocate(invoiceDiscount, amounts) : amounts.map(() => 0n);
+    const after = amounts.map((a, i) => a - shares[i]);
+
+    // 3) taxes: exact per line and rate, then rounded per line or per invoice
+    const exact = priced.map((p, i) => {
+      const all = p.rates.reduce((acc, t) => acc.add(t.r), Rational.ZERO);
+      const taxable = taxInclusive ? Rational.of(after[i]).div(all.add(1n)) : Rational.of(after[i]);
+      return { taxable, taxes: p.rates.map((t) => taxable.mul(t.r)) };
+    });
+    const lineTaxes: bigint[][] = priced.map(() => []);
+    if (rounding === 'perLine') {
+      priced.forEach((p, i) => {
+        if (!p.rates.length) return;
+        if (!taxInclusive) {
+          lineTaxes[i] = exact[i].taxes.map(round);
+          return;
+        }
+        // the price is fixed: the rounded net decides the tax, split over the rates by weight
+        const tax = after[i] - round(exact[i].taxable);
+        lineTaxes[i] = allocateExact(tax, p.rates.map((t) => t.r));
+      });
+    } else {
+      for (const t of rates) {
+        const idx = priced.map((p, i) => (p.rates.includes(t) ? i : -1)).filter((i) => i >= 0);
+        if (!idx.length) continue;
+        const parts = idx.map((i) => exact[i].taxes[priced[i].rates.indexOf(t)]);
+        const total = round(parts.reduce((a, b) => a.add(b), Rational.ZERO));
+        allocateExact(total, parts).forEach((amount, k) => {
+          const i = idx[k];
+          lineTaxes[i][priced[i].rates.indexOf(t)] = amount;
+        });
+      }
+    }
+
+    const results: InvoiceLineResult[] = priced.map((p, i) => {
+      const taxes = p.rates.map((t, j) => ({ name: t.name, amount: lineTaxes[i][j] }));
+      const tax = sum(taxes.map((t) => t.amount));
+      const net = taxInclusive ? after[i] - tax : after[i];
+      if (net < 0n) throw new Error(`Invoice.calculate: line ${i} taxes exceed its amount`);
+      return {
+        ...(p.line.description !== undefined ? { description: p.line.description } : {}),
+        quantity: p.quantity,
+        unitPrice: p.unitPrice,
+        gross: p.gross,
+        lineDiscount: p.lineDiscount,
+        invoiceDiscount: shares[i],
+        discount: p.lineDiscount + shares[i],
+        net,
+        taxes,
+        tax,
+        total: net + tax,
+      };
+    });
+
+    const taxTotals: InvoiceTaxTotal[] = [];
+    for (const t of rates) {
+      const idx = priced.map((p, i) => (p.rates.includes(t) ? i : -1)).filter((i) => i >= 0);
+      if (!idx.length) continue;
+      taxTotals.push({
+        name: t.name,
+        percent: t.percent,
+        base: sum(idx.map((i) => results[i].net)),
+        amount: sum(idx.map((i) => lineTaxes[i][priced[i].rates.indexOf(t)])),
+      });
+    }
+
+    const lineDiscount = sum(results.map((l) => l.lineDiscount));
+    const net = sum(results.map((l) => l.net));
+    const tax = sum(taxTotals.map((t) => t.amount));
+    return {
+      ...(options.currency !== undefined ? { currency: options.currency.toUpperCase() } : {}),
+      decimals,
+      rounding,
+      taxInclusive,
+      lines: results,
+      gross: sum(results.map((l) => l.gross)),
+      lineDiscount,
+      invoiceDiscount,
+      discount: lineDiscount + invoiceDiscount,
+      net,
+      taxes: taxTotals,
+      tax,
+      total: net + tax,
+    };
+  }
+
+  return { options: opts, calculate };
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function invoiceDecimals(o: InvoiceOptions): number {
+  const decimals = o.currency !== undefined ? requireFiatCurrency(o.currency).exponent : o.decimals;
+  if (decimals === undefined || !Number.isInteger(decimals) || decimals < 0)
+    throw new Error('createInvoiceCalculator: pass a currency or non-negative integer decimals');
+  if (o.currency !== undefined && o.decimals !== undefined && o.decimals !== decimals)
+    throw new Error(`createInvoiceCalculator: ${o.currency} has ${decimals} decimals, not ${o.decimals}`);
+  return decimals;
+}
+
+function percentOf(p: string | number, where: string): Rational {
+  const r = Rational.of(p);
+  if (r.sign() < 0 || r.gt(100n)) throw new Error(`${where}: percent must be between 0 and 100`);
+  return r.div(100n);
+}
+
+/** `allocate` with exact rational weights (scaled to a common denominator). */
+function allocateExact(total: bigint, weights: Rational[]): bigint[] {
+  if (total === 0n || weights.every((w) => w.isZero())) return weights.map(() => 0n);
+  const den = weights.reduce((l, w) => (l / gcd(l, w.den)) * w.den, 1n);
+  return allocate(total, weights.map((w) => w.num * (den / w.den)));
+}
+
+function sum(xs: bigint[]): bigint {
+  return xs.reduce((a, b) => a + b, 0n);
+}
@@ -0,0 +1,216 @@
+/**
+ * @defy-labs/precise-money — ledger.ts
+ * Position accounting over many partial fills: running VWAP, cost basis and
+ * realized/unrealized PnL under FIFO, LIFO or average cost. Pure BigInt.
+ */
+
+import { mulDiv, fromMinor, divToDecimalString, convertUnitsByDecimals, type Rounding } from './core';
+
+export type FillSide = 'buy' | 'sell';
+export type CostMethod = 'fifo' | 'lifo' | 'average';
+
+export type Fill = {
+  side: FillSide;
+  /** Base quantity, minor units (baseDecimals). */
+  qty: bigint;
+  /** Quote spent (buy) or received (sell) before fees, minor units (quoteDecimals). */
+  quote: bigint;
+  /** Fee in quote minor units: added to cost on buys, deducted from proceeds on sells. */
+  fee?: bigint;
+  id?: string;
+};
+
+export type FillLedgerOptions = {
+  baseDecimals: number;
+  quoteDecimals: number;
+  /** Default method for reports. Default 'fifo'. */
+  method?: CostMethod;
+  /** Rounding of the cost taken out of a partially closed lot. Default 'round'. */
+  mode?: Rounding;
+};
+
+/** All amounts in minor units: qty in base, the rest in quote. */
+export type LedgerReport = {
+  method: CostMethod;
+  position: bigint;
+  costBasis: bigint;
+  realizedPnl: bigint;
+  fees: bigint;
+  boughtQty: bigint;
+  boughtQuote: bigint;
+  soldQty: bigint;
+  soldQuote: bigint;
+};
+
+export type LedgerSummary = {
+  method: CostMethod;
+  position: string;
+  costBasis: string;
+  realizedPnl: string;
+  unrealizedPnl?: string;
+  /** QUOTE per 1 BASE. */
+  vwapBuy?: string;
+  vwapSell?: string;
+  averageCost?: string;
+};
+
+type Lot = { qty: bigint; cost: bigint };
+
+export class FillLedger {
+  readonly baseDecimals: number;
+  readonly quoteDecimals: number;
+  readonly method: CostMethod;
+  private readonly mode: Rounding;
+  private readonly list: Fill[] = [];
+  private readonly reports = new Map<CostMethod, LedgerReport & { lots: Lot[] }>();
+
+  constructor(opts: FillLedgerOptions) {
+    const { baseDecimals, quoteDecimals } = opts ?? ({} as FillLedgerOptions);
+    if (!Number.isInteger(baseDecimals) || baseDecimals < 0) throw new Error('FillLedger: baseDecimals must be a non-negative integer');
+    if (!Number.isInteger(quoteDecimals) || quoteDecimals < 0) throw new Error('FillLedger: quoteDecimals must be a non-negative integer');
+    this.baseDecimals = baseDecimals;
+    this.quoteDecimals = quoteDecimals;
+    this.method = opts.method ?? 'fifo';
+    this.mode = opts.mode ?? 'round';
+    assertMethod(this.method);
+  }
+
+  /** Append a fill. Sells larger than the open position are rejected (no short positions). */
+  record(fill: Fill): this {
+    if (!fill || (fill.side !== 'buy' && fill.side !== 'sell')) throw new Error("FillLedger.record: side must be 'buy' or 'sell'");
+    if (fill.qty <= 0n) throw new Error('FillLedger.record: qty must be > 0');
+    if (fill.quote < 0n) throw new Error('FillLedger.record: quote must be >= 0');
+    if ((fill.fee ?? 0n) < 0n) throw new Error('FillLedger.record: fee must be >= 0');
+    if (fill.side === 'sell' && fill.qty > this.position())
+      throw new Error(`FillLedger.record: sell of ${fill.qty} exceeds the open position ${this.position()}`);
+    this.list.push(Object.freeze({ ...fill }));
+    this.reports.clear();
+    return this;
+  }
+
+  recordMany(fills: Fill[]): this {
+    for (const f of fills) this.record(f);
+    return this;
+  }
+
+  fills(): readonly Fill[] {
+    return this.list.slice();
+  }
+
+  /** Open base quantity (minor units); identical under every method. */
+  position(): bigint {
+    return this.list.reduce((p, f) => (f.side === 'buy' ? p + f.qty : p - f.qty), 0n);
+  }
+
+  report(method: CostMethod = this.method): LedgerReport {
+    const { lots: _lots, ...r } = this.replay(method);
+    return r;
+  }
+
+  costBasis(method: CostMethod = this.method): bigint {
+    return this.replay(method).costBasis;
+  }
+
+  realizedPnl(method: CostMethod = this.method): bigint {
+    return this.replay(method).realizedPnl;
+  }
+
+  /** Mark-to-market of the open position minus its cost basis; `mark` is QUOTE per 1 BASE (e.g. `parsePriceRatio('2000')`). */
+  unrealizedPnl(mark: { num: bigint; den: bigint }, method: CostMethod = this.method): bigint {
+    const r = this.replay(method);
+    return convertUnitsByDecimals(r.position, this.baseDecimals, this.quoteDecimals, mark, this.mode) - r.costBasis;
+  }
+
+  /** Volume-weighted average price of one side (fees excluded), QUOTE per 1 BASE; undefined without fills. */
+  vwap(side: FillSide = 'buy'): { num: bigint; den: bigint } | undefined {
+    const fills = this.list.filter((f) => f.side === side);
+    if (!fills.length) return undefined;
+    const qty = fills.reduce((a, f) => a + f.qty, 0n);
+    const quote = fills.reduce((a, f) => a + f.quote, 0n);
+    return this.price(quote, qty);
+  }
+
+  /** Cost basis per unit of the open position (fees included); undefined when flat. */
+  averageCost(method: CostMethod = this.method): { num: bigint; den: bigint } | undefined {
+    const r = this.replay(method);
+    return r.position > 0n ? this.price(r.costBasis, r.position) : undefined;
+  }
+
+  /** Human-readable snapshot: amounts via `fromMinor`, prices via `divToDecimalString(…, scale)`. */
+  summary(opts: { method?: CostMethod; mark?: { num: bigint; den: bigint }; scale?: number } = {}): LedgerSummary {
+    const method = opts.method ?? this.method;
+    const scale = opts.scale ?? 8;
+    const r = this.replay(method);
+    const fmt = (p?: { num: bigint; den: bigint }) => (p ? divToDecimalString(p.num, p.den, scale) : undefined);
+    const out: LedgerSummary = {
+      method,
+      position: fromMinor(r.position, this.baseDecimals),
+      costBasis: fromMinor(r.costBasis, this.quoteDecimals),
+      realizedPnl: fromMinor(r.realizedPnl, this.quoteDecimals),
+    };
+    if (opts.mark) out.unrealizedPnl = fromMinor(this.unrealizedPnl(opts.mark, method), this.quoteDecimals);
+    const vb = fmt(this.vwap('buy'));
+    const vs = fmt(this.vwap('sell'));
+    const ac = fmt(this.averageCost(method));
+    if (vb !== undefined) out.vwapBuy = vb;
+    if (vs !== undefined) out.vwapSell = vs;
+    if (ac !== undefined) out.averageCost = ac;
+    return out;
+  }
+
+  private price(quoteMinor: bigint, qtyMinor: bigint): { num: bigint; den: bigint } {
+    return { num: quoteMinor * 10n ** BigInt(this.baseDecimals), den: qtyMinor * 10n ** BigInt(this.quoteDecimals) };
+  }
+
+  private replay(method: CostMethod): LedgerReport & { lots: Lot[] } {
+    assertMethod(method);
+    const cached = this.reports.get(method);
+    if (cached) return cached;
+
+    const r = {
+      method, position: 0n, costBasis: 0n, realizedPnl: 0n, fees: 0n,
+      boughtQty: 0n, boughtQuote: 0n, soldQty: 0n, soldQuote: 0n, lots: [] as Lot[],
+    };
+    for (const f of this.list) {
+      const fee = f.fee ?? 0n;
+      r.fees += fee;
+      if (f.side === 'buy') {
+        r.boughtQty += f.qty;
+        r.boughtQuote += f.quote;
+        if (method === 'average' && r.lots.length) {
+          r.lots[0] = { qty: r.lots[0].qty + f.qty, cost: r.lots[0].cost + f.quote + fee };
+        } else {
+          r.lots.push({ qty: f.qty, cost: f.quote + fee });
+        }
+        r.position += f.qty;
+        r.costBasis += f.quote + fee;
+        continue;
+      }
+      r.soldQty += f.qty;
+      r.soldQuote += f.quote;
+      let left = f.qty;
+      let removed = 0n;
+      while (left > 0n) {
+        const i = method === 'lifo' ? r.lots.length - 1 : 0;
+        const lot = r.lots[i];
+        const take = left < lot.qty ? left : lot.qty;
+        const cost = take === lot.qty ? lot.cost : mulDiv(lot.cost, take, lot.qty, this.mode);
+        removed += cost;
+        left -= take;
+        if (take === lot.qty) r.lots.splice(i, 1);
+        else r.lots[i] = { qty: lot.qty - take, cost: lot.cost - cost };
+      }
+      r.position -= f.qty;
+      r.costBasis -= removed;
+      r.realizedPnl += f.quote - fee - removed;
+    }
+    this.reports.set(method, r);
+    return r;
+  }
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function assertMethod(m: CostMethod): void {
+  if (m !== 'fifo' && m !== 'lifo' && m !== 'average') throw new Error(`FillLedger: unknown cost method ${m}`);
+}
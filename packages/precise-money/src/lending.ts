@@ -0,0 +1,210 @@
+/**
+ * @defy-labs/precise-money — lending.ts
+ * Aave/Compound-style fixed point: WAD (1e18) and RAY (1e27) math with the
+ * Solidity libraries' half-up rounding, interest accrual and scaled balances.
+ */
+
+import { scaleUnits, toMinor, type Rounding } from './core';
+
+export const WAD = 10n ** 18n;
+export const RAY = 10n ** 27n;
+export const HALF_WAD = WAD / 2n;
+export const HALF_RAY = RAY / 2n;
+export const WAD_RAY_RATIO = 10n ** 9n;
+/** MathUtils.SECONDS_PER_YEAR (365 days). */
+export const SECONDS_PER_YEAR = 31_536_000n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/* ---------------- WadRayMath ---------------- */
+
+/** a·b / WAD, half up (WadRayMath.wadMul). */
+export function wadMul(a: bigint, b: bigint): bigint {
+  return halfUpMul('wadMul', a, b, WAD, HALF_WAD);
+}
+
+/** a·WAD / b, half up (WadRayMath.wadDiv). */
+export function wadDiv(a: bigint, b: bigint): bigint {
+  return halfUpDiv('wadDiv', a, b, WAD);
+}
+
+/** a·b / RAY, half up (WadRayMath.rayMul). */
+export function rayMul(a: bigint, b: bigint): bigint {
+  return halfUpMul('rayMul', a, b, RAY, HALF_RAY);
+}
+
+/** a·RAY / b, half up (WadRayMath.rayDiv). */
+export function rayDiv(a: bigint, b: bigint): bigint {
+  return halfUpDiv('rayDiv', a, b, RAY);
+}
+
+/** RAY → WAD, half up. */
+export function rayToWad(a: bigint): bigint {
+  assertUint('rayToWad', a);
+  return (a + WAD_RAY_RATIO / 2n) / WAD_RAY_RATIO;
+}
+
+export function wadToRay(a: bigint): bigint {
+  assertUint('wadToRay', a);
+  const r = a * WAD_RAY_RATIO;
+  if (r > MAX_UINT256) throw new Error('wadToRay: overflow');
+  return r;
+}
+
+/** x^n in RAY by squaring, each step a half-up `rayMul` (DSMath / Aave v2 rayPow). */
+export function rayPow(x: bigint, n: bigint | number): bigint {
+  let e = BigInt(n);
+  if (e < 0n) throw new Error('rayPow: exponent must be >= 0');
+  let base = x;
+  let z = e % 2n !== 0n ? base : RAY;
+  for (e /= 2n; e !== 0n; e /= 2n) {
+    base = rayMul(base, base);
+    if (e % 2n !== 0n) z = rayMul(z, base);
+  }
+  return z;
+}
+
+/** Decimal string → WAD ("1.5" → 1.5e18). */
+export function parseWad(human: string | number, mode: Rounding = 'round'): bigint {
+  return toMinor(human, 18, { mode });
+}
+
+/** Decimal string → RAY ("0.05" → 5e25, i.e. 5%). */
+export function parseRay(human: string | number, mode: Rounding = 'round'): bigint {
+  return toMinor(human, 27, { mode });
+}
+
+/** WAD-scaled value → asset minor units (`scaleUnits` 18 → decimals). */
+export function wadToUnits(wad: bigint, decimals: number, mode: Rounding = 'round'): bigint {
+  return scaleUnits(wad, 18, decimals, { mode });
+}
+
+/** RAY-scaled value → asset minor units (`scaleUnits` 27 → decimals). */
+export function rayToUnits(ray: bigint, decimals: number, mode: Rounding = 'round'): bigint {
+  return scaleUnits(ray, 27, decimals, { mode });
+}
+
+/** Asset minor units → WAD. */
+export function unitsToWad(units: bigint, decimals: number): bigint {
+  return scaleUnits(units, decimals, 18);
+}
+
+/* ---------------- interest ---------------- */
+
+/** Linear interest factor in RAY: RAY + rate·Δt / year (MathUtils.calculateLinearInterest). */
+export function linearInterest(rateRay: bigint, seconds: bigint | number): bigint {
+  assertUint('linearInterest', rateRay);
+  const dt = toSeconds('linearInterest', seconds);
+  return RAY + (rateRay * dt) / SECONDS_PER_YEAR;
+}
+
+/**
+ * Per-second compounding factor in RAY, approximated with the first terms of the
+ * binomial expansion exactly like Aave v3 MathUtils.calculateCompoundedInterest.
+ */
+export function compoundedInterest(rateRay: bigint, seconds: bigint | number): bigint {
+  assertUint('compoundedInterest', rateRay);
+  const exp = toSeconds('compoundedInterest', seconds);
+  if (exp === 0n) return RAY;
+  const expMinusOne = exp - 1n;
+  const expMinusTwo = exp > 2n ? exp - 2n : 0n;
+  const basePowerTwo = rayMul(rateRay, rateRay) / (SECONDS_PER_YEAR * SECONDS_PER_YEAR);
+  const basePowerThree = rayMul(basePowerTwo, rateRay) / SECONDS_PER_YEAR;
+  const secondTerm = (exp * expMinusOne * basePowerTwo) / 2n;
+  const thirdTerm = (exp * expMinusOne * expMinusTwo * basePowerThree) / 6n;
+  return RAY + (rateRay * exp) / SECONDS_PER_YEAR + secondTerm + thirdTerm;
+}
+
+/** APR → APY (both RAY) compounding `periods` times a year (default: every second). */
+export function aprToApy(aprRay: bigint, periods: bigint | number = SECONDS_PER_YEAR): bigint {
+  assertUint('aprToApy', aprRay);
+  const n = toPeriods('aprToApy', periods);
+  return rayPow(RAY + aprRay / n, n) - RAY;
+}
+
+/** APY → APR (both RAY): the smallest per-period rate whose compounding reaches the APY, times `periods`. */
+export function apyToApr(apyRay: bigint, periods: bigint | number = SECONDS_PER_YEAR): bigint {
+  assertUint('apyToApr', apyRay);
+  const n = toPeriods('apyToApr', periods);
+  const target = RAY + apyRay;
+  // (1 + r)^n >= 1 + n·r, so the per-period rate is at most apy / n
+  let lo = 0n;
+  let hi = apyRay / n + 1n;
+  while (lo < hi) {
+    const mid = (lo + hi) / 2n;
+    if (rayPow(RAY + mid, n) >= target) hi = mid;
+    else lo = mid + 1n;
+  }
+  return lo * n;
+}
+
+/** Grow a liquidity/borrow index: index · interestFactor (rayMul). */
+export function accrueIndex(
+  indexRay: bigint,
+  rateRay: bigint,
+  seconds: bigint | number,
+  method: 'linear' | 'compounded' = 'compounded'
+): bigint {
+  const factor = method === 'linear' ? linearInterest(rateRay, seconds) : compoundedInterest(rateRay, seconds);
+  return rayMul(indexRay, factor);
+}
+
+/** Grow a balance (asset minor units) by the interest factor; result in the same units. */
+export function accrueBalance(
+  balanceMinor: bigint,
+  rateRay: bigint,
+  seconds: bigint | number,
+  method: 'linear' | 'compounded' = 'compounded'
+): bigint {
+  const factor = method === 'linear' ? linearInterest(rateRay, seconds) : compoundedInterest(rateRay, seconds);
+  return rayMul(balanceMinor, factor);
+}
+
+/* ---------------- scaled balances ---------------- */
+
+/** Actual balance → scaled balance stored on chain: amount.rayDiv(index) (aToken mint). */
+export function toScaledBalance(amountMinor: bigint, indexRay: bigint): bigint {
+  return rayDiv(amountMinor, indexRay);
+}
+
+/** Scaled balance → actual balance: scaled.rayMul(index) (aToken balanceOf). */
+export function fromScaledBalance(scaledMinor: bigint, indexRay: bigint): bigint {
+  return rayMul(scaledMinor, indexRay);
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function halfUpMul(fn: string, a: bigint, b: bigint, unit: bigint, half: bigint): bigint {
+  assertUint(fn, a);
+  assertUint(fn, b);
+  const p = a * b + half;
+  if (p > MAX_UINT256) throw new Error(`${fn}: overflow`);
+  return p / unit;
+}
+
+function halfUpDiv(fn: string, a: bigint, b: bigint, unit: bigint): bigint {
+  assertUint(fn, a);
+  assertUint(fn, b);
+  if (b === 0n) throw new Error(`${fn}: division by zero`);
+  const p = a * unit + b / 2n;
+  if (p > MAX_UINT256) throw new Error(`${fn}: overflow`);
+  return p / b;
+}
+
+function assertUint(fn: string, x: bigint): void {
+  if (typeof x !== 'bigint' || x < 0n || x > MAX_UINT256) throw new Error(`${fn}: operands must be uint256`);
+}
+
+function toSeconds(fn: string, s: bigint | number): bigint {
+  if (typeof s === 'number' && !Number.isSafeInteger(s)) throw new Error(`${fn}: seconds must be an integer`);
+  const v = BigInt(s);
+  if (v < 0n) throw new Error(`${fn}: seconds must be >= 0`);
+  return v;
+}
+
+function toPeriods(fn: string, p: bigint | number): bigint {
+  if (typeof p === 'number' && !Number.isSafeInteger(p)) throw new Error(`${fn}: periods must be an integer`);
+  const v = BigInt(p);
+  if (v <= 0n) throw new Error(`${fn}: periods must be > 0`);
+  return v;
+}
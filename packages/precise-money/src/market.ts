@@ -0,0 +1,291 @@
+/**
+ * @defy-labs/precise-money — market.ts
+ * Exchange market filters: quantize limit prices to the tick size and quantities to the
+ * step (lot) size with side-aware rounding, check min/max qty, price and notional, and
+ * split large orders into child orders that satisfy every filter.
+ */
+
+import { normalizeAmountInput, roundToIncrement, convertUnitsByDecimals, fromMinor, toMinor, mulDiv, type Rounding } from './core';
+import { parsePriceRatio, reducePrice, comparePrice, type PriceRatio } from './price';
+
+export type OrderSide = 'buy' | 'sell';
+
+/** Filter values are human decimal strings, as exchanges publish them. */
+export type MarketFilters = {
+  baseDecimals: number;
+  quoteDecimals: number;
+  /** Price increment, QUOTE per 1 BASE (e.g. "0.01"). */
+  tickSize: string;
+  /** Quantity increment in BASE (e.g. "0.0001"); must fit `baseDecimals`. */
+  stepSize: string;
+  minPrice?: string;
+  maxPrice?: string;
+  minQty?: string;
+  maxQty?: string;
+  /** Minimum price × qty, in QUOTE. */
+  minNotional?: string;
+  maxNotional?: string;
+  /** Price rounding per side. Default: buy 'floor', sell 'ceil' (never worse than the requested limit). */
+  priceRounding?: Partial<Record<OrderSide, Rounding>>;
+  /** Quantity rounding per side. Default 'floor' for both (never more than requested). */
+  qtyRounding?: Partial<Record<OrderSide, Rounding>>;
+};
+
+/** Filters parsed into exact values: prices as ratios, quantities in base minor units, notionals in quote minor units. */
+export type ResolvedMarketFilters = {
+  baseDecimals: number;
+  quoteDecimals: number;
+  tickSize: PriceRatio;
+  /** Fraction digits of `tickSize`; quantized prices are printed with this many. */
+  priceDecimals: number;
+  stepSize: bigint;
+  minPrice?: PriceRatio;
+  maxPrice?: PriceRatio;
+  minQty?: bigint;
+  maxQty?: bigint;
+  minNotional?: bigint;
+  maxNotional?: bigint;
+};
+
+/** `qty` in base minor units (bigint) or a human decimal string. */
+export type OrderRequest = {
+  side: OrderSide;
+  price: string | PriceRatio;
+  qty: bigint | string;
+};
+
+export type QuantizedOrder = {
+  side: OrderSide;
+  price: PriceRatio;
+  /** Price with exactly `priceDecimals` digits, ready to submit. */
+  priceText: string;
+  /** Base minor units. */
+  qty: bigint;
+  qtyText: string;
+  /** price × qty in quote minor units (rounded half away from zero). */
+  notional: bigint;
+};
+
+export type MarketViolationCode =
+  | 'PRICE_TICK'
+  | 'PRICE_TOO_LOW'
+  | 'PRICE_TOO_HIGH'
+  | 'QTY_STEP'
+  | 'QTY_TOO_LOW'
+  | 'QTY_TOO_HIGH'
+  | 'NOTIONAL_TOO_LOW'
+  | 'NOTIONAL_TOO_HIGH';
+
+export type MarketViolation = {
+  code: MarketViolationCode;
+  message: string;
+  /** The filter value that was crossed, as a human string. */
+  limit: string;
+  /** The order's value, as a human string. */
+  actual: string;
+};
+
+export type MarketValidation = { ok: boolean; violations: MarketViolation[] };
+
+export type MarketSplit = {
+  /** Child orders, largest first; their quantities sum to the quantized total. */
+  orders: QuantizedOrder[];
+  /** Base minor units dropped by step-size quantization of the total. */
+  remainder: bigint;
+};
+
+/** Thrown by `assertValid` and `split`; `violations` carries the structured reasons. */
+export class MarketRuleError extends Error {
+  readonly violations: MarketViolation[];
+
+  constructor(violations: MarketViolation[], message = violations.map((v) => v.message).join('; ')) {
+    super(message);
+    this.name = 'MarketRuleError';
+    this.violations = violations;
+  }
+}
+
+export interface MarketRules {
+  readonly filters: ResolvedMarketFilters;
+  /** Snap a price to the tick grid (side default rounding unless `mode` is given). */
+  quantizePrice(price: string | PriceRatio, side: OrderSide, mode?: Rounding): PriceRatio;
+  /** Snap a quantity (base minor units or human string) to the step grid. */
+  quantizeQty(qty: bigint | string, side: OrderSide, mode?: Rounding): bigint;
+  quantize(order: OrderRequest): QuantizedOrder;
+  /** price × qty in quote minor units. */
+  notional(price: string | PriceRatio, qty: bigint | string, mode?: Rounding): bigint;
+  formatPrice(price: PriceRatio): string;
+  /** Check an order as-is (no quantization); every failing filter is reported. */
+  validate(order: OrderRequest): MarketValidation;
+  assertValid(order: OrderRequest): void;
+  /**
+   * Quantize, then split into the fewest child orders that respect maxQty/maxNotional
+   * (and `maxChildQty`), sized as evenly as the step allows so that the smallest child
+   * is as large as possible for minQty/minNotional.
+   */
+  split(order: OrderRequest, maxChildQty?: bigint | string): MarketSplit;
+}
+
+export function createMarketRules(filters: MarketFilters): MarketRules {
+  const f = resolveFilters(filters);
+  const { baseDecimals: bd, quoteDecimals: qd } = f;
+  const priceMode = (side: OrderSide) => filters.priceRounding?.[side] ?? (side === 'buy' ? 'floor' : 'ceil');
+  const qtyMode = (side: OrderSide) => filters.qtyRounding?.[side] ?? 'floor';
+
+  const toPrice = (p: string | PriceRatio): PriceRatio => (typeof p === 'string' ? parsePriceRatio(p) : reducePrice(p));
+  const toQty = (q: bigint | string, mode: Rounding = 'trunc'): bigint => (typeof q === 'bigint' ? q : toMinor(q, bd, { mode }));
+  const priceText = (p: PriceRatio): string =>
+    fromMinor(mulDiv(p.num, 10n ** BigInt(f.priceDecimals), p.den, 'round'), f.priceDecimals);
+
+  function quantizePrice(price: string | PriceRatio, side: OrderSide, mode: Rounding = priceMode(side)): PriceRatio {
+    const p = toPrice(price);
+    const t = f.tickSize;
+    const ticks = mulDiv(p.num * t.den, 1n, p.den * t.num, mode);
+    return reducePrice({ num: ticks * t.num, den: t.den });
+  }
+
+  function quantizeQty(qty: bigint | string, side: OrderSide, mode: Rounding = qtyMode(side)): bigint {
+    if (typeof qty === 'bigint') return roundToIncrement(qty, f.stepSize, mode);
+    // human input: round once, straight to the step grid
+    const n = normalizeAmountInput(qty);
+    const scale = 10n ** BigInt(n.frac.length);
+    return mulDiv(n.sign * BigInt(n.int + n.frac), 10n ** BigInt(bd), f.stepSize * scale, mode) * f.stepSize;
+  }
+
+  function notional(price: string | PriceRatio, qty: bigint | string, mode: Rounding = 'round'): bigint {
+    return convertUnitsByDecimals(toQty(qty), bd, qd, toPrice(price), mode);
+  }
+
+  function build(side: OrderSide, price: PriceRatio, qty: bigint): QuantizedOrder {
+    return { side, price, priceText: priceText(price), qty, qtyText: fromMinor(qty, bd), notional: notional(price, qty) };
+  }
+
+  function quantize(order: OrderRequest): QuantizedOrder {
+    assertSide(order.side);
+    return build(order.side, quantizePrice(order.price, order.side), quantizeQty(order.qty, order.side));
+  }
+
+  function validate(order: OrderRequest): MarketValidation {
+    assertSide(order.side);
+    const p = toPrice(order.price);
+    const qty = toQty(order.qty);
+    const v: MarketViolation[] = [];
+    const pText = ratioText(p);
+    const qText = fromMinor(qty, bd);
+
+    if (p.num === 0n) v.push(violation('PRICE_TOO_LOW', 'price must be > 0', ratioText(f.tickSize), pText));
+    else if ((p.num * f.tickSize.den) % (p.den * f.tickSize.num) !== 0n)
+      v.push(violation('PRICE_TICK', `price ${pText} is not a multiple of the tick size`, ratioText(f.tickSize), pText));
+    if (f.minPrice && comparePrice(p, f.minPrice) < 0) v.push(violation('PRICE_TOO_LOW', `price ${pText} is below the minimum`, ratioText(f.minPrice), pText));
+    if (f.maxPrice && comparePrice(p, f.maxPrice) > 0) v.push(violation('PRICE_TOO_HIGH', `price ${pText} is above the maximum`, ratioText(f.maxPrice), pText));
+
+    const finer = typeof order.qty === 'string' && fractionDigits(order.qty) > bd;
+    if (qty <= 0n) v.push(violation('QTY_TOO_LOW', 'quantity must be > 0', fromMinor(f.minQty ?? f.stepSize, bd), qText));
+    else if (finer || qty % f.stepSize !== 0n)
+      v.push(violation('QTY_STEP', `quantity ${qText} is not a multiple of the step size`, fromMinor(f.stepSize, bd), qText));
+    if (f.minQty !== undefined && qty > 0n && qty < f.minQty)
+      v.push(violation('QTY_TOO_LOW', `quantity ${qText} is below the minimum`, fromMinor(f.minQty, bd), qText));
+    if (f.maxQty !== undefined && qty > f.maxQty)
+      v.push(violation('QTY_TOO_HIGH', `quantity ${qText} is above the maximum`, fromMinor(f.maxQty, bd), qText));
+
+    // exact: floor(n) >= min ⇔ n >= min and ceil(n) <= max ⇔ n <= max for integer limits
+    if (f.minNotional !== undefined && notional(p, qty, 'floor') < f.minNotional)
+      v.push(violation('NOTIONAL_TOO_LOW', `notional ${fromMinor(notional(p, qty), qd)} is below the minimum`, fromMinor(f.minNotional, qd), fromMinor(notional(p, qty), qd)));
+    if (f.maxNotional !== undefined && notional(p, qty, 'ceil') > f.maxNotional)
+      v.push(violation('NOTIONAL_TOO_HIGH', `notional ${fromMinor(notional(p, qty), qd)} is above the maximum`, fromMinor(f.maxNotional, qd), fromMinor(notional(p, qty), qd)));
+
+    return { ok: v.length === 0, violations: v };
+  }
+
+  function assertValid(order: OrderRequest): void {
+    const r = validate(order);
+    if (!r.ok) throw new MarketRuleError(r.violations);
+  }
+
+  function split(order: OrderRequest, maxChildQty?: bigint | string): MarketSplit {
+    const q = quantize(order);
+    const remainder = toQty(order.qty, qtyMode(order.side)) - q.qty;
+    const price = validate({ side: q.side, price: q.price, qty: f.stepSize }).violations.filter((x) => x.code.startsWith('PRICE'));
+    if (price.length) throw new MarketRuleError(price);
+    if (q.qty <= 0n) throw new MarketRuleError(validate(q).violations);
+
+    const caps: bigint[] = [q.qty];
+    if (f.maxQty !== undefined) caps.push(f.maxQty);
+    if (maxChildQty !== undefined) caps.push(toQty(maxChildQty, 'floor'));
+    if (f.maxNotional !== undefined)
+      caps.push(mulDiv(f.maxNotional * q.price.den, 10n ** BigInt(bd), q.price.num * 10n ** BigInt(qd), 'floor'));
+    const capSteps = caps.reduce((a, b) => (b < a ? b : a)) / f.stepSize;
+    if (capSteps <= 0n) throw new Error('MarketRules.split: the child size cap is below one step');
+
+    // fewest children under the cap, filled evenly: the smallest child is as large as it can be
+    const steps = q.qty / f.stepSize;
+    const n = (steps + capSteps - 1n) / capSteps;
+    const per = steps / n;
+    const extra = steps % n;
+    const orders: QuantizedOrder[] = [];
+    for (let i = 0n; i < n; i++) orders.push(build(q.side, q.price, (per + (i < extra ? 1n : 0n)) * f.stepSize));
+
+    const smallest = validate(orders[orders.length - 1]);
+    if (!smallest.ok)
+      throw new MarketRuleError(smallest.violations, `MarketRules.split: no compliant split of ${q.qtyText} into ${n} child order(s): ${smallest.violations.map((x) => x.message).join('; ')}`);
+    return { orders, remainder };
+  }
+
+  return { filters: f, quantizePrice, quantizeQty, quantize, notional, formatPrice: priceText, validate, assertValid, split };
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function resolveFilters(m: MarketFilters): ResolvedMarketFilters {
+  const fn = 'createMarketRules';
+  if (!m) throw new Error(`${fn}: filters are required`);
+  const { baseDecimals: bd, quoteDecimals: qd } = m;
+  if (!Number.isInteger(bd) || bd < 0) throw new Error(`${fn}: baseDecimals must be a non-negative integer`);
+  if (!Number.isInteger(qd) || qd < 0) throw new Error(`${fn}: quoteDecimals must be a non-negative integer`);
+
+  const tickSize = parsePriceRatio(m.tickSize);
+  if (tickSize.num === 0n) throw new Error(`${fn}: tickSize must be > 0`);
+  const stepSize = exactMinor(fn, 'stepSize', m.stepSize, bd);
+  if (stepSize <= 0n) throw new Error(`${fn}: stepSize must be > 0`);
+
+  const out: ResolvedMarketFilters = { baseDecimals: bd, quoteDecimals: qd, tickSize, priceDecimals: fractionDigits(m.tickSize), stepSize };
+  if (m.minPrice !== undefined) out.minPrice = parsePriceRatio(m.minPrice);
+  if (m.maxPrice !== undefined) out.maxPrice = parsePriceRatio(m.maxPrice);
+  if (m.minQty !== undefined) out.minQty = exactMinor(fn, 'minQty', m.minQty, bd);
+  if (m.maxQty !== undefined) out.maxQty = exactMinor(fn, 'maxQty', m.maxQty, bd);
+  if (m.minNotional !== undefined) out.minNotional = exactMinor(fn, 'minNotional', m.minNotional, qd);
+  if (m.maxNotional !== undefined) out.maxNotional = exactMinor(fn, 'maxNotional', m.maxNotional, qd);
+  if (out.minQty !== undefined && out.maxQty !== undefined && out.minQty > out.maxQty) throw new Error(`${fn}: minQty exceeds maxQty`);
+  if (out.minPrice && out.maxPrice && comparePrice(out.minPrice, out.maxPrice) > 0) throw new Error(`${fn}: minPrice exceeds maxPrice`);
+  return out;
+}
+
+/** Filter value → minor units, refusing values finer than `decimals` or negative. */
+function exactMinor(fn: string, name: string, value: string, decimals: number): bigint {
+  const n = normalizeAmountInput(value);
+  if (n.sign < 0n && /[1-9]/.test(n.int + n.frac)) throw new Error(`${fn}: ${name} must be >= 0`);
+  if (n.frac.replace(/0+$/, '').length > decimals) throw new Error(`${fn}: ${name} ${value} has more than ${decimals} decimals`);
+  return toMinor(value, decimals);
+}
+
+function fractionDigits(value: string): number {
+  return normalizeAmountInput(value).frac.replace(/0+$/, '').length;
+}
+
+function ratioText(p: PriceRatio): string {
+  // terminating decimals print exactly; anything else is shown with 18 digits
+  let den = p.den;
+  let digits = 0;
+  for (const f of [2n, 5n]) while (den % f === 0n) den /= f;
+  if (den === 1n) while (10n ** BigInt(digits) % p.den !== 0n) digits++;
+  else digits = 18;
+  return fromMinor(mulDiv(p.num, 10n ** BigInt(digits), p.den, 'round'), digits);
+}
+
+function violation(code: MarketViolationCode, message: string, limit: string, actual: string): MarketViolation {
+  return { code, message, limit, actual };
+}
+
+function assertSide(side: OrderSide): void {
+  if (side !== 'buy' && side !== 'sell') throw new Error(`MarketRules: side must be 'buy' or 'sell', got ${side}`);
+}
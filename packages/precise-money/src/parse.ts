@@ -0,0 +1,180 @@
+/**
+ * @defy-labs/precise-money — parse.ts
+ * Strict amount parsing: the caller declares the locale (or separators) and
+ * anything ambiguous fails with a typed, code-carrying error instead of a guess.
+ */
+
+import { normalizeAmountInput, toMinor, type Rounding } from './core';
+import { resolveSeparators, type LocaleName, type Separators } from './format';
+
+export type AmountParseErrorCode =
+  | 'EMPTY'
+  | 'NOT_FINITE'
+  | 'UNSAFE_NUMBER'
+  | 'INVALID_CHARACTER'
+  | 'MISPLACED_SIGN'
+  | 'MULTIPLE_DECIMAL_SEPARATORS'
+  | 'AMBIGUOUS_SEPARATOR'
+  | 'INVALID_GROUPING'
+  | 'INVALID_EXPONENT'
+  | 'NEGATIVE_NOT_ALLOWED'
+  | 'TOO_MANY_DECIMALS';
+
+/** Error thrown by the strict parser; `code` is stable and meant for form validation. */
+export class AmountParseError extends Error {
+  readonly code: AmountParseErrorCode;
+  readonly input: string | number;
+
+  constructor(code: AmountParseErrorCode, input: string | number, message: string) {
+    super(message);
+    this.name = 'AmountParseError';
+    this.code = code;
+    this.input = input;
+  }
+}
+
+export type StrictParseOptions = {
+  /** Declared locale or separators. When omitted, only unambiguous '.'/',' usage is accepted. */
+  locale?: LocaleName | Separators;
+  /** Accept "1.5e-7". Default true. */
+  allowExponent?: boolean;
+  /** Default true. */
+  allowNegative?: boolean;
+  /** Reject inputs with more significant fraction digits than this. */
+  maxDecimals?: number;
+};
+
+export type NormalizedAmount = { sign: 1n | -1n; int: string; frac: string };
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: AmountParseError };
+
+/**
+ * Parse human input into `{ sign, int, frac }` without guessing.
+ *  - locale 'en-US': "1,234.5" ok, "1,23" → INVALID_GROUPING, "1.234,5" → INVALID_GROUPING
+ *  - no locale:      "1,234" / "1.234" → AMBIGUOUS_SEPARATOR, "1,234.5" ok, "0,5" ok
+ */
+export function parseAmountStrict(input: string | number, opts: StrictParseOptions = {}): NormalizedAmount {
+  const out = typeof input === 'number' ? parseNumber(input) : parseString(input, opts);
+  if (out.sign < 0n && opts.allowNegative === false && /[1-9]/.test(out.int + out.frac))
+    throw new AmountParseError('NEGATIVE_NOT_ALLOWED', input, `negative amounts are not allowed: ${input}`);
+  if (opts.maxDecimals !== undefined) {
+    const significant = out.frac.replace(/0+$/, '');
+    if (significant.length > opts.maxDecimals)
+      throw new AmountParseError('TOO_MANY_DECIMALS', input, `at most ${opts.maxDecimals} decimals allowed: ${input}`);
+  }
+  return out;
+}
+
+/**
+ * Strict `toMinor`: extra fraction digits are rejected (TOO_MANY_DECIMALS)
+ * unless a rounding `mode` is given explicitly.
+ */
+export function toMinorStrict(
+  input: string | number,
+  decimals: number,
+  opts: StrictParseOptions & { mode?: Rounding } = {}
+): bigint {
+  const { sign, int, frac } = parseAmountStrict(input, {
+    ...opts,
+    maxDecimals: opts.mode ? opts.maxDecimals : Math.min(opts.maxDecimals ?? decimals, decimals),
+  });
+  return toMinor(`${sign < 0n ? '-' : ''}${int}.${frac || '0'}`, decimals, { mode: opts.mode });
+}
+
+/** Non-throwing variant of `parseAmountStrict`. */
+export function safeParseAmount(input: string | number, opts?: StrictParseOptions): ParseResult<NormalizedAmount> {
+  return attempt(() => parseAmountStrict(input, opts));
+}
+
+/** Non-throwing variant of `toMinorStrict`. */
+export function safeToMinor(
+  input: string | number,
+  decimals: number,
+  opts?: StrictParseOptions & { mode?: Rounding }
+): ParseResult<bigint> {
+  return attempt(() => toMinorStrict(input, decimals, opts));
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function attempt<T>(fn: () => T): ParseResult<T> {
+  try {
+    return { ok: true, value: fn() };
+  } catch (e) {
+    if (e instanceof AmountParseError) return { ok: false, error: e };
+    throw e;
+  }
+}
+
+function parseNumber(x: number): NormalizedAmount {
+  if (!Number.isFinite(x)) throw new AmountParseError('NOT_FINITE', x, `amount must be a finite number, got ${x}`);
+  if (Math.abs(x) > Number.MAX_SAFE_INTEGER)
+    throw new AmountParseError('UNSAFE_NUMBER', x, `number ${x} exceeds Number.MAX_SAFE_INTEGER; pass the amount as a string`);
+  return normalizeAmountInput(x);
+}
+
+function parseString(input: string, opts: StrictParseOptions): NormalizedAmount {
+  let s = input.trim();
+  if (s === '') throw new AmountParseError('EMPTY', input, 'amount is empty');
+
+  let neg = false;
+  if (s[0] === '+' || s[0] === '-') { neg = s[0] === '-'; s = s.slice(1); }
+
+  let exponent = '';
+  const e = /[eE]/.exec(s);
+  if (e) {
+    const m = /^(.*?)[eE]([+-]?\d{1,4})$/.exec(s);
+    if (opts.allowExponent === false || !m || m[1] === '')
+      throw new AmountParseError('INVALID_EXPONENT', input, `invalid exponent in ${input}`);
+    s = m[1];
+    exponent = 'e' + m[2];
+  }
+  if (/[+-]/.test(s)) throw new AmountParseError('MISPLACED_SIGN', input, `sign must come first: ${input}`);
+
+  const sep = opts.locale ? resolveSeparators(opts.locale) : inferSeparators(s, input);
+  if (/^\s$/.test(sep.group)) s = s.replace(/\s/g, sep.group); // fr-FR: any space groups digits
+  const allowed = new Set(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '_', sep.decimal, sep.group]);
+  for (const ch of s) {
+    if (!allowed.has(ch))
+      throw new AmountParseError('INVALID_CHARACTER', input, `unexpected character "${ch}" in ${input}`);
+  }
+  s = s.replace(/_/g, '');
+
+  const parts = s.split(sep.decimal);
+  if (parts.length > 2)
+    throw new AmountParseError('MULTIPLE_DECIMAL_SEPARATORS', input, `more than one decimal separator in ${input}`);
+  const [intRaw, fracRaw = ''] = parts;
+  if (sep.group && fracRaw.includes(sep.group))
+    throw new AmountParseError('INVALID_GROUPING', input, `group separator after the decimal separator in ${input}`);
+  if (sep.group && intRaw.includes(sep.group) && !/^\d{1,3}$/.test(intRaw.split(sep.group)[0]))
+    throw new AmountParseError('INVALID_GROUPING', input, `invalid digit grouping in ${input}`);
+  if (sep.group && intRaw.split(sep.group).slice(1).some((g) => !/^\d{3}$/.test(g)))
+    throw new AmountParseError('INVALID_GROUPING', input, `invalid digit grouping in ${input}`);
+
+  const intDigits = sep.group ? intRaw.split(sep.group).join('') : intRaw;
+  if (intDigits === '' && fracRaw === '')
+    throw new AmountParseError('INVALID_CHARACTER', input, `no digits in ${input}`);
+
+  try {
+    return normalizeAmountInput(`${neg ? '-' : ''}${intDigits || '0'}.${fracRaw}${exponent}`);
+  } catch (err) {
+    throw new AmountParseError('INVALID_EXPONENT', input, (err as Error).message);
+  }
+}
+
+/** Without a declared locale, accept '.'/',' only where their role is unambiguous. */
+function inferSeparators(s: string, input: string): Separators {
+  const dots = s.split('.').length - 1;
+  const commas = s.split(',').length - 1;
+  if (dots && commas) {
+    return s.lastIndexOf('.') > s.lastIndexOf(',') ? { decimal: '.', group: ',' } : { decimal: ',', group: '.' };
+  }
+  const ch = dots ? '.' : commas ? ',' : '';
+  if (!ch) return { decimal: '.', group: '' };
+  const other = ch === '.' ? ',' : '.';
+  if (dots + commas > 1) return { decimal: other, group: ch }; // repeated → must be grouping
+  const [head, tail] = s.split(ch);
+  if (/^\d{3}$/.test(tail) && /^[1-9]\d{0,2}$/.test(head.replace(/_/g, '')))
+    throw new AmountParseError('AMBIGUOUS_SEPARATOR', input, `"${ch}" in ${input} could be a decimal or a group separator; declare a locale`);
+  return { decimal: ch, group: '' };
+}
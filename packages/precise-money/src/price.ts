@@ -0,0 +1,91 @@
+/**
+ * @defy-labs/precise-money — price.ts
+ * Exact price ratios (QUOTE per 1 BASE as `{ num, den }`): parse without truncation,
+ * invert, compose cross-rates and compare — rounding happens only when converting amounts.
+ */
+
+import { normalizeAmountInput, convertUnitsByDecimals, type Rounding } from './core';
+import { Rational } from './rational';
+
+/** Non-negative rational price, QUOTE per 1 BASE. Same shape as `priceRatioDecimals` returns. */
+export type PriceRatio = { num: bigint; den: bigint };
+
+/**
+ * Exact ratio from a decimal string (or safe number), reduced.
+ * parsePriceRatio('157.725') → { num: 6309n, den: 40n }
+ */
+export function parsePriceRatio(price: string | number): PriceRatio {
+  const n = normalizeAmountInput(price);
+  if (n.sign < 0n && /[1-9]/.test(n.int + n.frac)) throw new Error('parsePriceRatio: negative price not allowed');
+  return reducePrice({ num: BigInt(n.int + n.frac), den: 10n ** BigInt(n.frac.length) });
+}
+
+/** Build a ratio from integers (validated and reduced). */
+export function priceRatio(num: bigint, den: bigint): PriceRatio {
+  return reducePrice({ num, den });
+}
+
+/** Lowest terms (reduced by `Rational`). */
+export function reducePrice(p: PriceRatio): PriceRatio {
+  assertPrice('reducePrice', p);
+  const r = Rational.of(p);
+  return { num: r.num, den: r.den };
+}
+
+/** BASE per 1 QUOTE. Throws for a zero price. */
+export function invertPrice(p: PriceRatio): PriceRatio {
+  assertPrice('invertPrice', p);
+  if (p.num === 0n) throw new Error('invertPrice: cannot invert a zero price');
+  return reducePrice({ num: p.den, den: p.num });
+}
+
+/**
+ * Chain rates: composePrice(USDC per BRL, XLM per USDC) → XLM per BRL.
+ * Each ratio's QUOTE must be the next ratio's BASE.
+ */
+export function composePrice(...prices: PriceRatio[]): PriceRatio {
+  if (!prices.length) throw new Error('composePrice: at least one price is required');
+  let num = 1n;
+  let den = 1n;
+  for (const p of prices) {
+    assertPrice('composePrice', p);
+    num *= p.num;
+    den *= p.den;
+  }
+  return reducePrice({ num, den });
+}
+
+/** -1 | 0 | 1, by cross-multiplication (no rounding). */
+export function comparePrice(a: PriceRatio, b: PriceRatio): -1 | 0 | 1 {
+  assertPrice('comparePrice', a);
+  assertPrice('comparePrice', b);
+  const l = a.num * b.den;
+  const r = b.num * a.den;
+  return l < r ? -1 : l > r ? 1 : 0;
+}
+
+export function priceEquals(a: PriceRatio, b: PriceRatio): boolean {
+  return comparePrice(a, b) === 0;
+}
+
+/**
+ * Convert an amount through one or more rates with a single final rounding.
+ * convertThrough(brlMinor, 2, 7, [usdcPerBrl, xlmPerUsdc]) → XLM stroops.
+ */
+export function convertThrough(
+  amountUnits: bigint,
+  fromDec: number,
+  toDec: number,
+  prices: PriceRatio[],
+  mode: Rounding = 'round'
+): bigint {
+  return convertUnitsByDecimals(amountUnits, fromDec, toDec, composePrice(...prices), mode);
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function assertPrice(fn: string, p: PriceRatio): void {
+  if (!p || typeof p.num !== 'bigint' || typeof p.den !== 'bigint') throw new Error(`${fn}: price must be { num: bigint, den: bigint }`);
+  if (p.den <= 0n) throw new Error(`${fn}: price denominator must be > 0`);
+  if (p.num < 0n) throw new Error(`${fn}: negative price not allowed`);
+}
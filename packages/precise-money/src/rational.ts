@@ -0,0 +1,261 @@
+/**
+ * @defy-labs/precise-money — rational.ts
+ * Immutable exact fraction (bigint num/den, always reduced, den > 0). Rounding happens
+ * only when printing or converting to an integer, and always with an explicit mode.
+ */
+
+import { normalizeAmountInput, mulDiv, divToDecimalString, type Rounding } from './core';
+
+/** Anything `Rational.of` accepts: integers, decimal or "a/b" strings, safe numbers, `{ num, den }` ratios. */
+export type RationalInput = Rational | bigint | number | string | { num: bigint; den: bigint };
+
+export type DecimalStringOptions = {
+  /** Fraction digits. Default: exact for terminating values, otherwise 18. */
+  scale?: number;
+  /** Rounding of the last printed digit. Default 'trunc'. */
+  mode?: Rounding;
+  /** Round to at most this many significant digits instead of a fixed scale (trailing zeros trimmed). */
+  significant?: number;
+  /** Print the exact expansion, with the repeating block in parentheses: 1/3 → "0.(3)", 7/6 → "1.1(6)". */
+  repeating?: boolean;
+};
+
+/** Longest expansion `repeating` will print before giving up (prefix + period digits). */
+const MAX_REPEATING_DIGITS = 10_000;
+
+export class Rational {
+  readonly num: bigint;
+  readonly den: bigint;
+
+  private constructor(num: bigint, den: bigint) {
+    if (den === 0n) throw new Error('Rational: division by zero');
+    if (den < 0n) { num = -num; den = -den; }
+    const g = gcd(num, den);
+    this.num = num / g;
+    this.den = den / g;
+    Object.freeze(this);
+  }
+
+  static readonly ZERO: Rational = new Rational(0n, 1n);
+  static readonly ONE: Rational = new Rational(1n, 1n);
+
+  /**
+   * Rational.of(2n, 3n) · Rational.of('1.25') · Rational.of('2/3') · Rational.of('0.(3)') · Rational.of({ num, den })
+   * Numbers must be safe integers or finite decimals (converted through their shortest string form).
+   */
+  static of(value: RationalInput, den?: bigint): Rational {
+    const r = Rational.from(value);
+    if (den === undefined) return r;
+    if (den === 0n) throw new Error('Rational: division by zero');
+    return new Rational(r.num, r.den * den);
+  }
+
+  private static from(v: RationalInput): Rational {
+    if (v instanceof Rational) return v;
+    if (typeof v === 'bigint') return new Rational(v, 1n);
+    if (typeof v === 'string') return Rational.parse(v);
+    if (typeof v === 'number') {
+      const n = normalizeAmountInput(v);
+      return new Rational(n.sign * BigInt(n.int + n.frac), 10n ** BigInt(n.frac.length));
+    }
+    if (v && typeof v.num === 'bigint' && typeof v.den === 'bigint') return new Rational(v.num, v.den);
+    throw new Error('Rational: unsupported input');
+  }
+
+  /** Parse "a/b", decimals ("-1.25", "1.5e-7") and the repeating form printed by `toDecimalString` ("1.1(6)"). */
+  static parse(text: string): Rational {
+    const s = text.trim();
+    const frac = /^([+-]?\d+)\s*\/\s*(\d+)$/.exec(s);
+    if (frac) return new Rational(BigInt(frac[1]), BigInt(frac[2]));
+    const rep = /^([+-]?)(\d*)\.(\d*)\((\d+)\)$/.exec(s);
+    if (rep) {
+      const [, sign, int, pre, period] = rep;
+      // a.b(c) = (abc − ab) / (10^|b| · (10^|c| − 1))
+      const whole = BigInt((int || '0') + pre + period) - BigInt((int || '0') + pre);
+      const den = 10n ** BigInt(pre.length) * (10n ** BigInt(period.length) - 1n);
+      return new Rational(sign === '-' ? -whole : whole, den);
+    }
+    if (/[()/]/.test(s)) throw new Error(`Rational.parse: invalid number: ${text}`);
+    const n = normalizeAmountInput(s);
+    return new Rational(n.sign * BigInt(n.int + n.frac), 10n ** BigInt(n.frac.length));
+  }
+
+  add(other: RationalInput): Rational {
+    const o = toRational(other);
+    return new Rational(this.num * o.den + o.num * this.den, this.den * o.den);
+  }
+
+  sub(other: RationalInput): Rational {
+    const o = toRational(other);
+    return new Rational(this.num * o.den - o.num * this.den, this.den * o.den);
+  }
+
+  mul(other: RationalInput): Rational {
+    const o = toRational(other);
+    return new Rational(this.num * o.num, this.den * o.den);
+  }
+
+  /** Throws for division by zero. */
+  div(other: RationalInput): Rational {
+    const o = toRational(other);
+    if (o.num === 0n) throw new Error('Rational.div: division by zero');
+    return new Rational(this.num * o.den, this.den * o.num);
+  }
+
+  /** Integer power; negative exponents invert (zero cannot be inverted). */
+  pow(exponent: number): Rational {
+    if (!Number.isSafeInteger(exponent)) throw new Error('Rational.pow: exponent must be an integer');
+    const e = BigInt(Math.abs(exponent));
+    const r = new Rational(this.num ** e, this.den ** e);
+    return exponent < 0 ? r.inverse() : r;
+  }
+
+  negate(): Rational {
+    return new Rational(-this.num, this.den);
+  }
+
+  abs(): Rational {
+    return this.num < 0n ? this.negate() : this;
+  }
+
+  inverse(): Rational {
+    if (this.num === 0n) throw new Error('Rational.inverse: cannot invert zero');
+    return new Rational(this.den, this.num);
+  }
+
+  /** -1 | 0 | 1, by cross-multiplication. */
+  compare(other: RationalInput): -1 | 0 | 1 {
+    const o = toRational(other);
+    const l = this.num * o.den;
+    const r = o.num * this.den;
+    return l < r ? -1 : l > r ? 1 : 0;
+  }
+
+  equals(other: RationalInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: RationalInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: RationalInput): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: RationalInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: RationalInput): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  sign(): -1 | 0 | 1 {
+    return this.num < 0n ? -1 : this.num > 0n ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.num === 0n;
+  }
+
+  isInteger(): boolean {
+    return this.den === 1n;
+  }
+
+  /** True when the decimal expansion ends (the reduced denominator has no prime factors other than 2 and 5). */
+  isTerminating(): boolean {
+    return terminatingDigits(this.den) !== undefined;
+  }
+
+  /** Round to an integer (default 'trunc'). */
+  toBigInt(mode: Rounding = 'trunc'): bigint {
+    return mulDiv(this.num, 1n, this.den, mode);
+  }
+
+  /**
+   * Decimal string. A bare number is the scale: toDecimalString(2, 'round').
+   *   Rational.of(2n, 3n).toDecimalString(2)                  → "0.66"
+   *   Rational.of(2n, 3n).toDecimalString(2, 'round')         → "0.67"
+   *   Rational.of('1234.5678').toDecimalString({ significant: 3 }) → "1230"
+   *   Rational.of(1n, 7n).toDecimalString({ repeating: true }) → "0.(142857)"
+   */
+  toDecimalString(opts: number | DecimalStringOptions = {}, mode?: Rounding): string {
+    const o: DecimalStringOptions = typeof opts === 'number' ? { scale: opts, mode } : { mode, ...opts };
+    const m = o.mode ?? 'trunc';
+    if (o.repeating) return this.repeatingString();
+    if (o.significant !== undefined) return this.significantString(o.significant, m);
+    const scale = o.scale ?? terminatingDigits(this.den) ?? 18;
+    return divToDecimalString(this.num, this.den, scale, m);
+  }
+
+  /** "num/den", or just "num" for integers. Round-trips through `Rational.parse`. */
+  toString(): string {
+    return this.den === 1n ? this.num.toString() : `${this.num}/${this.den}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private significantString(digits: number, mode: Rounding): string {
+    if (!Number.isInteger(digits) || digits < 1) throw new Error('Rational.toDecimalString: significant must be a positive integer');
+    if (this.num === 0n) return '0';
+    const a = this.abs();
+    // exponent of the leading digit: 10^e <= |x| < 10^(e+1)
+    let e = a.num / a.den > 0n ? (a.num / a.den).toString().length - 1 : -1;
+    if (e < 0) while (a.num * 10n ** BigInt(-e) < a.den) e--;
+    const scale = digits - 1 - e;
+    if (scale >= 0) return trimZeros(divToDecimalString(this.num, this.den, scale, mode));
+    const unit = 10n ** BigInt(-scale);
+    return (mulDiv(this.num, 1n, this.den * unit, mode) * unit).toString();
+  }
+
+  private repeatingString(): string {
+    const neg = this.num < 0n;
+    const n = neg ? -this.num : this.num;
+    const int = n / this.den;
+    let r = n % this.den;
+    const seen = new Map<bigint, number>();
+    let digits = '';
+    while (r !== 0n && !seen.has(r)) {
+      if (digits.length >= MAX_REPEATING_DIGITS)
+        throw new Error(`Rational.toDecimalString: expansion of ${this} exceeds ${MAX_REPEATING_DIGITS} digits`);
+      seen.set(r, digits.length);
+      r *= 10n;
+      digits += (r / this.den).toString();
+      r %= this.den;
+    }
+    const sign = neg ? '-' : '';
+    if (r === 0n) return sign + int.toString() + (digits ? '.' + digits : '');
+    const start = seen.get(r) as number;
+    return `${sign}${int}.${digits.slice(0, start)}(${digits.slice(start)})`;
+  }
+}
+
+/** Greatest common divisor of |a| and |b| (gcd(0, 0) = 0). */
+export function gcd(a: bigint, b: bigint): bigint {
+  if (a < 0n) a = -a;
+  if (b < 0n) b = -b;
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function toRational(v: RationalInput): Rational {
+  return v instanceof Rational ? v : Rational.of(v);
+}
+
+/** Digits needed to print 1/den exactly, or undefined when it repeats. */
+function terminatingDigits(den: bigint): number | undefined {
+  let twos = 0;
+  let fives = 0;
+  while (den % 2n === 0n) { den /= 2n; twos++; }
+  while (den % 5n === 0n) { den /= 5n; fives++; }
+  return den === 1n ? Math.max(twos, fives) : undefined;
+}
+
+function trimZeros(s: string): string {
+  return s.includes('.') ? s.replace(/\.?0+$/, '') : s;
+}
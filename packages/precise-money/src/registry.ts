@@ -1,30 +1,345 @@
 /**
-* Decimals registry: by symbol and by full AssetId.
-* Keep it simple; allow overrides at runtime.
+* Decimals registry: isolated instances created with `createRegistry()`.
+* Lookup precedence: AssetId (address/denom/issuer) → chain+symbol → bare symbol.
+* `DEC` is the shared default instance (kept for back-compat).
+* Fiat currencies live in a separate ISO 4217 catalog (`fiatCurrency()`), so the
+* USD fiat and the USDC token never share a namespace.
 */
+import { ISO_4217_ROWS, ISO_4217_CASH_INCREMENTS } from './iso4217';
+
 export type Chain = 'stellar' | 'evm' | 'solana' | 'cosmos';
-export type AssetId = { chain: Chain; symbol: string; address?: string; issuer?: string; chainId?: number };
+export type AssetId = {
+  chain: Chain;
+  symbol: string;
+  /** EVM/Solana/Soroban contract or mint address. */
+  address?: string;
+  /** Stellar classic issuer (G...). */
+  issuer?: string;
+  /** Cosmos bank denom (uatom, ibc/..., factory/...). */
+  denom?: string;
+  chainId?: number | string;
+};
+
+export type AssetEntry = AssetId & {
+  decimals: number;
+  name?: string;
+  tags?: string[];
+  /** UI hint (e.g. stellar.toml display_decimals); on-chain math always uses `decimals`. */
+  displayDecimals?: number;
+};
+
+/** throw → reject the registration; warn → keep the existing value and report; overwrite → replace silently. */
+export type ConflictPolicy = 'throw' | 'warn' | 'overwrite';
+
+export type RegistrySnapshot = { version: 1; symbols: Record<string, number>; assets: AssetEntry[] };
+
+export type LookupSource = 'id' | 'chain+symbol' | 'symbol';
+export type LookupResult = { decimals: number; source: LookupSource; entry?: AssetEntry };
+export type AssetQuery = Partial<AssetId>;
+
+export type RegistryOptions = {
+  onConflict?: ConflictPolicy;
+  /** Receives conflict reports when onConflict is 'warn'. Default console.warn. */
+  warn?: (message: string) => void;
+  symbols?: Record<string, number>;
+  assets?: AssetEntry[];
+};
+
+export interface AssetRegistry {
+  /** Decimals declared for a bare symbol (see `set`). */
+  get(symbol: string): number | undefined;
+  set(symbol: string, dec: number): void;
+  getById(id: AssetQuery): number | undefined;
+  setById(id: AssetId, dec: number): void;
+  register(entry: AssetEntry): void;
+  registerMany(entries: AssetEntry[]): void;
+  /** Entry matching the id's address/denom/issuer (or chain+symbol when it has none). */
+  entry(id: AssetQuery): AssetEntry | undefined;
+  /** Scoped lookup: id → chain+symbol → symbol. Ambiguous scopes are skipped, never guessed. */
+  lookup(query: AssetQuery): LookupResult | undefined;
+  entries(): AssetEntry[];
+  delete(id: AssetId): boolean;
+  clear(): void;
+  toJSON(): RegistrySnapshot;
+  load(snapshot: RegistrySnapshot | string): void;
+}
+
+/** Thrown when a registration disagrees with an existing one and the policy is 'throw'. */
+export class AssetConflictError extends Error {
+  readonly existing: AssetEntry | number;
+  readonly incoming: AssetEntry | number;
+
+  constructor(message: string, existing: AssetEntry | number, incoming: AssetEntry | number) {
+    super(message);
+    this.name = 'AssetConflictError';
+    this.existing = existing;
+    this.incoming = incoming;
+  }
+}
+
+export type DecimalsQuery = Partial<AssetId> & { chain: Chain };
+
+/** The chain reports that the asset does not exist (or nothing else could answer for it). */
+export class DecimalsNotFoundError extends Error {
+  readonly query: DecimalsQuery;
+
+  constructor(query: DecimalsQuery, message = `decimals not found for ${describeAsset(query)}`) {
+    super(message);
+    this.name = 'DecimalsNotFoundError';
+    this.query = query;
+  }
+}
+
+/** The chain client failed (timeout, RPC error, ...); the asset may well exist. */
+export class DecimalsTransportError extends Error {
+  readonly query: DecimalsQuery;
+  readonly cause: unknown;
+
+  constructor(query: DecimalsQuery, cause: unknown) {
+    super(`failed to fetch decimals for ${describeAsset(query)}: ${(cause as Error)?.message ?? String(cause)}`);
+    this.name = 'DecimalsTransportError';
+    this.query = query;
+    this.cause = cause;
+  }
+}
+
+const CHAINS: readonly Chain[] = ['stellar', 'evm', 'solana', 'cosmos'];
+
+/** Canonical string key for an AssetId: address/denom first, then issuer, then chain+symbol. */
+export function assetIdKey(id: AssetQuery): string {
+  return keysFor(id, String(id.chainId ?? ''))[0];
+}
+
+export function createRegistry(opts: RegistryOptions = {}): AssetRegistry {
+  const policy = opts.onConflict ?? 'throw';
+  const warn = opts.warn ?? ((m: string) => console.warn(m));
+  const bySymbol = new Map<string, number>();
+  const byKey = new Map<string, AssetEntry>();          // exact chainId
+  const byAnyChainId = new Map<string, Set<AssetEntry>>(); // chainId wildcard
+  const bySymbolEntries = new Map<string, Set<AssetEntry>>();
+
+  function conflict(message: string, existing: AssetEntry | number, incoming: AssetEntry | number): boolean {
+    if (policy === 'overwrite') return true;
+    if (policy === 'warn') { warn(message); return false; }
+    throw new AssetConflictError(message, existing, incoming);
+  }
 
+  function unindex(entry: AssetEntry): void {
+    for (const k of keysFor(entry, String(entry.chainId ?? ''))) if (byKey.get(k) === entry) byKey.delete(k);
+    for (const k of keysFor(entry, '*')) byAnyChainId.get(k)?.delete(entry);
+    bySymbolEntries.get(entry.symbol.toUpperCase())?.delete(entry);
+  }
 
-const bySymbol = new Map<string, number>();
-const byId = new Map<string, number>();
+  function register(input: AssetEntry): void {
+    const entry = validateEntry(input);
+    const keys = keysFor(entry, String(entry.chainId ?? ''));
+    const clashes = new Set(keys.map((k) => byKey.get(k)).filter((e): e is AssetEntry => !!e));
+    for (const old of clashes) {
+      if (old.decimals !== entry.decimals) {
+        const msg = `registry: ${describeAsset(entry)} declared with ${entry.decimals} decimals, already registered with ${old.decimals}`;
+        if (!conflict(msg, old, entry)) return;
+      }
+    }
+    clashes.forEach(unindex);
+    for (const k of keys) byKey.set(k, entry);
+    for (const k of keysFor(entry, '*')) setOf(byAnyChainId, k).add(entry);
+    setOf(bySymbolEntries, entry.symbol.toUpperCase()).add(entry);
+  }
 
+  function entry(id: AssetQuery): AssetEntry | undefined {
+    if (!id || !id.chain) return undefined;
+    const chainId = id.chainId === undefined ? '' : String(id.chainId);
+    for (const k of keysFor(id, chainId)) {
+      const hit = byKey.get(k);
+      if (hit) return hit;
+    }
+    if (id.chainId !== undefined) {
+      // entries registered without a chainId apply to every network of that chain
+      for (const k of keysFor(id, '')) {
+        const hit = byKey.get(k);
+        if (hit) return hit;
+      }
+      return undefined;
+    }
+    for (const k of keysFor(id, '*')) {
+      const hit = unanimous([...(byAnyChainId.get(k) ?? [])]);
+      if (hit) return hit;
+    }
+    return undefined;
+  }
 
-function idKey(id: AssetId): string {
-return [id.chain, id.chainId ?? '', id.symbol.toUpperCase(), id.address ?? '', id.issuer ?? ''].join(':');
+  function lookup(query: AssetQuery): LookupResult | undefined {
+    const q = query ?? {};
+    if (q.chain && (q.address || q.denom || q.issuer)) {
+      const hit = entry(q);
+      if (hit) return { decimals: hit.decimals, source: 'id', entry: hit };
+    }
+    const sym = q.symbol?.toUpperCase();
+    if (!sym) return undefined;
+    const candidates = [...(bySymbolEntries.get(sym) ?? [])];
+    if (q.chain) {
+      const scoped = candidates.filter((e) =>
+        e.chain === q.chain && (q.chainId === undefined || e.chainId === undefined || String(e.chainId) === String(q.chainId)));
+      const hit = unanimous(scoped);
+      if (hit) return { decimals: hit.decimals, source: 'chain+symbol', entry: hit };
+      if (scoped.length) return undefined; // same chain, conflicting decimals → do not guess
+    }
+    const explicit = bySymbol.get(sym);
+    if (explicit !== undefined) return { decimals: explicit, source: 'symbol' };
+    const hit = unanimous(candidates);
+    return hit ? { decimals: hit.decimals, source: 'symbol', entry: hit } : undefined;
+  }
+
+  function entries(): AssetEntry[] {
+    return [...new Set(byKey.values())].map((e) => ({ ...e, tags: e.tags ? [...e.tags] : undefined }))
+      .map(stripUndefined);
+  }
+
+  const registry: AssetRegistry = {
+    get(symbol) { return bySymbol.get(symbol.toUpperCase()); },
+    set(symbol, dec) {
+      assertDecimals(dec);
+      const key = symbol.toUpperCase();
+      const old = bySymbol.get(key);
+      if (old !== undefined && old !== dec && !conflict(`registry: symbol ${key} declared with ${dec} decimals, already ${old}`, old, dec)) return;
+      bySymbol.set(key, dec);
+    },
+    getById(id) { return entry(id)?.decimals; },
+    setById(id, dec) { register({ ...id, decimals: dec }); },
+    register,
+    registerMany(list) { for (const e of list) register(e); },
+    entry(id) {
+      const hit = entry(id);
+      return hit ? stripUndefined({ ...hit, tags: hit.tags ? [...hit.tags] : undefined }) : undefined;
+    },
+    lookup,
+    entries,
+    delete(id) {
+      const hit = byKey.get(assetIdKey(id));
+      if (!hit) return false;
+      unindex(hit);
+      return true;
+    },
+    clear() {
+      bySymbol.clear();
+      byKey.clear();
+      byAnyChainId.clear();
+      bySymbolEntries.clear();
+    },
+    toJSON() {
+      return { version: 1, symbols: Object.fromEntries(bySymbol), assets: entries() };
+    },
+    load(snapshot) {
+      const snap: RegistrySnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+      if (!snap || snap.version !== 1) throw new Error('registry: unsupported snapshot version');
+      for (const [sym, dec] of Object.entries(snap.symbols ?? {})) registry.set(sym, dec);
+      registry.registerMany(snap.assets ?? []);
+    },
+  };
+
+  for (const [sym, dec] of Object.entries(opts.symbols ?? {})) registry.set(sym, dec);
+  registry.registerMany(opts.assets ?? []);
+  return registry;
 }
 
+/** Shared default registry. Later declarations overwrite earlier ones (historical behavior). */
+export const DEC: AssetRegistry = createRegistry({
+  onConflict: 'overwrite',
+  // Some sensible defaults (can be extended at app init):
+  symbols: {
+    BRL: 2,
+    USD: 2,
+    USDC: 6, // common on many chains (18 on BNB Chain: register it by id there)
+    USDT: 6,
+  },
+});
 
-export const DEC = {
-get(symbol: string): number | undefined { return bySymbol.get(symbol.toUpperCase()); },
-set(symbol: string, dec: number): void { bySymbol.set(symbol.toUpperCase(), dec); },
-getById(id: AssetId): number | undefined { return byId.get(idKey(id)); },
-setById(id: AssetId, dec: number): void { byId.set(idKey(id), dec); },
+/** ISO 4217 currency. `exponent` is the number of minor-unit digits (JPY 0, USD 2, KWD 3, CLF 4). */
+export type FiatCurrency = {
+  code: string;
+  numeric: number;
+  exponent: number;
+  symbol: string;
+  name: string;
+  /** Smallest cash denomination in minor units (CHF 5 = 0.05), when coarser than 1. */
+  cashIncrement?: number;
 };
 
+const FIAT_BY_CODE = new Map<string, FiatCurrency>();
+const FIAT_BY_NUMERIC = new Map<number, FiatCurrency>();
+for (const [code, numeric, exponent, symbol, name] of ISO_4217_ROWS) {
+  const cash = ISO_4217_CASH_INCREMENTS[code];
+  const c: FiatCurrency = Object.freeze({ code, numeric, exponent, symbol, name, ...(cash ? { cashIncrement: cash } : {}) });
+  FIAT_BY_CODE.set(code, c);
+  FIAT_BY_NUMERIC.set(numeric, c);
+}
+
+/** ISO 4217 lookup by alphabetic ("JPY") or numeric (392 / "392") code. */
+export function fiatCurrency(code: string | number): FiatCurrency | undefined {
+  if (typeof code === 'number') return FIAT_BY_NUMERIC.get(code);
+  const c = code.trim();
+  return /^\d{1,3}$/.test(c) ? FIAT_BY_NUMERIC.get(Number(c)) : FIAT_BY_CODE.get(c.toUpperCase());
+}
+
+/** Like `fiatCurrency`, but throws for unknown codes. */
+export function requireFiatCurrency(code: string | number): FiatCurrency {
+  const c = fiatCurrency(code);
+  if (!c) throw new Error(`unknown ISO 4217 currency: ${code}`);
+  return c;
+}
+
+export function fiatCurrencies(): FiatCurrency[] {
+  return [...FIAT_BY_CODE.values()];
+}
+
+export function isFiatCurrency(code: string): boolean {
+  return FIAT_BY_CODE.has(code.trim().toUpperCase());
+}
+
+/* ---------------- internal helpers ---------------- */
 
-// Some sensible defaults (can be extended at app init):
-DEC.set('BRL', 2);
-DEC.set('USD', 2);
-DEC.set('USDC', 6); // common on many chains
-DEC.set('USDT', 6);
\ No newline at end of file
+function keysFor(id: AssetQuery, chainId: string): string[] {
+  const base = `${id.chain}:${chainId}`;
+  const sym = (id.symbol ?? '').toUpperCase();
+  const loc = id.address ?? id.denom;
+  const keys: string[] = [];
+  if (loc) keys.push(`${base}:loc:${id.chain === 'evm' ? loc.toLowerCase() : loc}`);
+  if (id.issuer) keys.push(`${base}:issuer:${sym}:${id.issuer}`);
+  if (!keys.length) keys.push(`${base}:symbol:${sym}`);
+  return keys;
+}
+
+function unanimous(list: AssetEntry[]): AssetEntry | undefined {
+  if (!list.length) return undefined;
+  return list.every((e) => e.decimals === list[0].decimals) ? list[0] : undefined;
+}
+
+function setOf<K, V>(map: Map<K, Set<V>>, key: K): Set<V> {
+  let s = map.get(key);
+  if (!s) map.set(key, (s = new Set()));
+  return s;
+}
+
+function assertDecimals(dec: number): void {
+  if (!Number.isInteger(dec) || dec < 0 || dec > 255) throw new Error(`registry: invalid decimals ${dec}`);
+}
+
+function validateEntry(e: AssetEntry): AssetEntry {
+  if (!e || !CHAINS.includes(e.chain)) throw new Error(`registry: unknown chain ${e?.chain}`);
+  if (typeof e.symbol !== 'string') throw new Error('registry: symbol must be a string');
+  if (!e.symbol && !e.address && !e.denom) throw new Error('registry: entry needs a symbol, address or denom');
+  assertDecimals(e.decimals);
+  if (e.displayDecimals !== undefined) assertDecimals(e.displayDecimals);
+  if (e.tags !== undefined && (!Array.isArray(e.tags) || e.tags.some((t) => typeof t !== 'string')))
+    throw new Error('registry: tags must be an array of strings');
+  return Object.freeze(stripUndefined({ ...e, tags: e.tags ? Object.freeze([...e.tags]) as string[] : undefined }));
+}
+
+function stripUndefined<T extends object>(o: T): T {
+  for (const k of Object.keys(o) as (keyof T)[]) if (o[k] === undefined) delete o[k];
+  return o;
+}
+
+function describeAsset(id: AssetQuery): string {
+  return [id.chain, id.chainId, id.symbol, id.address ?? id.denom, id.issuer].filter((x) => x !== undefined && x !== '').join(':');
+}
@@ -0,0 +1,204 @@
+/**
+ * @defy-labs/precise-money — resolver.ts
+ * Shared decimals resolver for every chain adapter: caches answers (with TTL),
+ * collapses concurrent lookups of the same asset, and keeps "not found" apart
+ * from transport errors so a flaky node never silently downgrades decimals.
+ */
+
+import {
+  DEC, AssetConflictError, DecimalsNotFoundError, DecimalsTransportError, assetIdKey,
+  type AssetRegistry, type Chain, type DecimalsQuery,
+} from './registry';
+import { evmFetchDecimalsViaViem } from './adapters/evm';
+import { solanaFetchMintDecimalsViaParsed } from './adapters/solana';
+import { cosmosFetchDecimalsViaBank } from './adapters/cosmos';
+import { stellarFetchDecimals, type StellarHorizonClient, type StellarSorobanClient } from './adapters/stellar';
+
+export type DecimalsSource = 'chain' | 'registry-id' | 'registry-symbol' | 'fallback';
+export type DecimalsResolution = {
+  decimals: number;
+  source: DecimalsSource;
+  /** True when served from the resolver cache. */
+  cached: boolean;
+  /** True when the chain was asked and reported the asset as missing. */
+  notFound?: boolean;
+  /** Set when the chain call failed and a registry or fallback answer was used instead (never cached). */
+  transportError?: DecimalsTransportError;
+};
+export type DecimalsBatchResult = { ok: true; value: DecimalsResolution } | { ok: false; error: Error };
+
+/** Same minimal client shapes as the adapters' fetch helpers. */
+export type DecimalsClients = {
+  evm?: { readContract: (args: any) => Promise<any> };
+  solana?: { getParsedAccountInfo: (pubkey: any, commitment?: any) => Promise<{ value: any }> };
+  /** Turn a base58 mint string into whatever `getParsedAccountInfo` expects (e.g. `new PublicKey(m)`). */
+  solanaPublicKey?: (mint: string) => unknown;
+  cosmos?: { bankDenomMetadata: (denom: string) => Promise<any> };
+  stellar?: { soroban?: StellarSorobanClient; horizon?: StellarHorizonClient };
+};
+
+export type DecimalsResolverOptions = {
+  clients?: DecimalsClients;
+  /** Registry consulted after the chain (default `DEC`). */
+  registry?: AssetRegistry;
+  /** Register decimals fetched from chain into `registry`. Default false. */
+  writeThrough?: boolean;
+  /** Ask the registry (by id) before the chain. Default false. */
+  preferRegistry?: boolean;
+  /** Cache lifetime in ms. Default Infinity; 0 disables caching (in-flight collapsing still applies). */
+  ttlMs?: number;
+  now?: () => number;
+  /** Per-chain last resort (defaults: evm 18, solana 9, cosmos 6, stellar 7); `false` disables it. */
+  fallback?: Partial<Record<Chain, number>> | false;
+  /** throw (default) → DecimalsTransportError; registry → registry only; fallback → registry, then fallback. */
+  onTransportError?: 'throw' | 'registry' | 'fallback';
+  /**
+   * Decide whether a client error means "asset not found" or "transport failure". Default: only
+   * `DecimalsNotFoundError` (thrown by the adapters) is "not found"; see `classifyDecimalsErrorByMessage`.
+   */
+  classifyError?: (error: unknown, query: DecimalsQuery) => 'not-found' | 'transport';
+};
+
+export interface DecimalsResolver {
+  resolve(query: DecimalsQuery): Promise<DecimalsResolution>;
+  /** Resolve many assets concurrently; duplicates share one lookup and failures are reported per item. */
+  resolveMany(queries: DecimalsQuery[]): Promise<DecimalsBatchResult[]>;
+  invalidate(query: DecimalsQuery): void;
+  clear(): void;
+}
+
+const DEFAULT_FALLBACK: Record<Chain, number> = { evm: 18, solana: 9, cosmos: 6, stellar: 7 };
+
+export function createDecimalsResolver(opts: DecimalsResolverOptions = {}): DecimalsResolver {
+  const registry = opts.registry ?? DEC;
+  const ttl = opts.ttlMs ?? Infinity;
+  const now = opts.now ?? (() => Date.now());
+  const classify = opts.classifyError ?? defaultClassify;
+  const onTransport = opts.onTransportError ?? 'throw';
+  const cache = new Map<string, { value: DecimalsResolution; expires: number }>();
+  const inflight = new Map<string, Promise<DecimalsResolution>>();
+
+  async function lookup(q: DecimalsQuery): Promise<DecimalsResolution> {
+    if (opts.preferRegistry) {
+      const hit = registry.lookup(q);
+      if (hit?.source === 'id') return { decimals: hit.decimals, source: 'registry-id', cached: false };
+    }
+
+    let notFound = false;
+    let transport: DecimalsTransportError | undefined;
+    const fetcher = chainFetcher(q, opts.clients ?? {});
+    if (fetcher) {
+      try {
+        const decimals = await fetcher();
+        if (opts.writeThrough) writeThrough(registry, q, decimals);
+        return { decimals, source: 'chain', cached: false };
+      } catch (e) {
+        if (e instanceof DecimalsNotFoundError || classify(e, q) === 'not-found') notFound = true;
+        else if (onTransport === 'throw') throw new DecimalsTransportError(q, e);
+        else transport = new DecimalsTransportError(q, e);
+      }
+    }
+
+    const hit = registry.lookup(q);
+    if (hit) {
+      const source: DecimalsSource = hit.source === 'id' ? 'registry-id' : 'registry-symbol';
+      return { decimals: hit.decimals, source, cached: false, ...flags(notFound, transport) };
+    }
+    if (transport && onTransport === 'registry') throw transport;
+    const fallback = opts.fallback === false ? undefined : { ...DEFAULT_FALLBACK, ...opts.fallback }[q.chain];
+    if (fallback === undefined) throw new DecimalsNotFoundError(q);
+    return { decimals: fallback, source: 'fallback', cached: false, ...flags(notFound, transport) };
+  }
+
+  function resolve(query: DecimalsQuery): Promise<DecimalsResolution> {
+    if (!query || !query.chain) return Promise.reject(new Error('resolve: query.chain is required'));
+    const key = cacheKey(query);
+    const hit = cache.get(key);
+    if (hit && hit.expires > now()) return Promise.resolve({ ...hit.value, cached: true });
+    if (hit) cache.delete(key);
+
+    const pending = inflight.get(key);
+    if (pending) return pending;
+    const p = lookup(query)
+      .then((value) => {
+        // a stand-in for a failed chain call must not hide the chain's answer once the node recovers
+        if (ttl > 0 && !value.transportError) cache.set(key, { value, expires: now() + ttl });
+        return value;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, p);
+    return p;
+  }
+
+  return {
+    resolve,
+    resolveMany(queries) {
+      return Promise.all(queries.map((q) =>
+        resolve(q).then(
+          (value): DecimalsBatchResult => ({ ok: true, value }),
+          (error): DecimalsBatchResult => ({ ok: false, error: error instanceof Error ? error : new Error(String(error)) })
+        )));
+    },
+    invalidate(query) { cache.delete(cacheKey(query)); },
+    clear() { cache.clear(); },
+  };
+}
+
+/**
+ * Opt-in `classifyError` for clients that do not throw typed errors: messages such as "not found",
+ * "execution reverted" or "returned no data" count as a missing asset. A misbehaving RPC can produce
+ * the same messages, so prefer the typed default where the adapters can tell.
+ */
+export function classifyDecimalsErrorByMessage(error: unknown): 'not-found' | 'transport' {
+  const msg = String((error as Error)?.message ?? error);
+  return /not found|invalid decimals|does not exist|revert|returned no data|\b404\b/i.test(msg) ? 'not-found' : 'transport';
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function chainFetcher(q: DecimalsQuery, clients: DecimalsClients): (() => Promise<number>) | undefined {
+  switch (q.chain) {
+    case 'evm':
+      if (clients.evm && q.address) return () => evmFetchDecimalsViaViem(clients.evm!, q.address as `0x${string}`);
+      return undefined;
+    case 'solana':
+      if (clients.solana && q.address) {
+        const mint = clients.solanaPublicKey ? clients.solanaPublicKey(q.address) : q.address;
+        return () => solanaFetchMintDecimalsViaParsed(clients.solana!, mint);
+      }
+      return undefined;
+    case 'cosmos': {
+      const denom = q.denom ?? q.address;
+      if (clients.cosmos && denom) return () => cosmosFetchDecimalsViaBank(clients.cosmos!, denom);
+      return undefined;
+    }
+    case 'stellar': {
+      const stellar = clients.stellar;
+      if (stellar?.soroban && q.address) return () => stellarFetchDecimals(stellar, { type: 'contract', contractId: q.address! });
+      if (stellar?.horizon && q.issuer && q.symbol) return () => stellarFetchDecimals(stellar, { type: 'classic', code: q.symbol!, issuer: q.issuer! });
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function writeThrough(registry: AssetRegistry, q: DecimalsQuery, decimals: number): void {
+  try {
+    registry.register({ ...q, symbol: q.symbol ?? '', decimals });
+  } catch (e) {
+    if (!(e instanceof AssetConflictError)) throw e; // the registry's conflict policy has the last word
+  }
+}
+
+function defaultClassify(error: unknown): 'not-found' | 'transport' {
+  return error instanceof DecimalsNotFoundError ? 'not-found' : 'transport';
+}
+
+function flags(notFound: boolean, transportError: DecimalsTransportError | undefined): Partial<DecimalsResolution> {
+  return { ...(notFound ? { notFound } : {}), ...(transportError ? { transportError } : {}) };
+}
+
+function cacheKey(q: DecimalsQuery): string {
+  return `${assetIdKey(q)}|${(q.symbol ?? '').toUpperCase()}`;
+}
@@ -0,0 +1,254 @@
+/**
+ * @defy-labs/precise-money — route.ts
+ * Multi-hop quotes (e.g. BRL → USDC on Stellar → bridge → USDC on Solana → SOL) with a
+ * per-hop audit: fees, the exact pre-rounding output and the dust each rounding step costs.
+ */
+
+import { applyBps, convertUnitsByDecimals, mulDiv, slippageDown, slippageUp, toMinor, type Rounding } from './core';
+import { DEC, type AssetQuery, type AssetRegistry } from './registry';
+import { parsePriceRatio, reducePrice, type PriceRatio } from './price';
+import { Rational } from './rational';
+
+/** An asset on one side of a hop; `decimals` overrides the registry lookup (id → chain+symbol → symbol). */
+export type RouteAsset = AssetQuery & { symbol: string; decimals?: number };
+
+export type RouteHop = {
+  /** Label for the audit, e.g. 'on-ramp' | 'bridge' | 'swap'. Default "from→to". */
+  name?: string;
+  from: RouteAsset;
+  to: RouteAsset;
+  /** TO per 1 FROM in human units (decimal string or ratio). Default 1 (bridges, wraps). */
+  rate?: string | PriceRatio;
+  /** Fee in basis points of the hop input, charged in FROM. */
+  feeBps?: number;
+  /** Fixed fee in FROM: minor units (bigint) or a human string. */
+  fixedFee?: bigint | string;
+  /** Rounding of the conversion. Default 'floor'. */
+  mode?: Rounding;
+  /** Rounding of the bps fee. Default 'ceil'. */
+  feeMode?: Rounding;
+};
+
+export type RouteOptions = {
+  /** Default `DEC`. */
+  registry?: AssetRegistry;
+  /** Default slippage for min-out / max-in. Default 0. */
+  slippageBps?: number;
+};
+
+export type ResolvedRouteAsset = RouteAsset & { decimals: number };
+
+/** One hop of a quote. FROM amounts in FROM minor units, TO amounts in TO minor units. */
+export type RouteHopQuote = {
+  name: string;
+  from: ResolvedRouteAsset;
+  to: ResolvedRouteAsset;
+  rate: PriceRatio;
+  amountIn: bigint;
+  bpsFee: bigint;
+  fixedFee: bigint;
+  totalFee: bigint;
+  /** amountIn − totalFee: what gets converted. */
+  netIn: bigint;
+  /** netIn × rate before rounding (fractional TO minor units). */
+  exactOut: Rational;
+  amountOut: bigint;
+  /** exactOut − amountOut: TO minor units lost to rounding (negative when the hop rounds up, in the receiver's favor). */
+  dust: Rational;
+  /** bpsFee − exact bps fee: FROM minor units paid because of fee rounding. */
+  feeDust: Rational;
+};
+
+export type RouteQuote = {
+  type: 'exactIn' | 'exactOut';
+  amountIn: bigint;
+  amountOut: bigint;
+  /** exactOut only: the requested output (amountOut can exceed it by rounding). */
+  targetOut?: bigint;
+  slippageBps: number;
+  /** exactIn: amountOut less slippage (slippageDown). */
+  minOut?: bigint;
+  /** exactOut: amountIn plus slippage (slippageUp). */
+  maxIn?: bigint;
+  hops: RouteHopQuote[];
+};
+
+type ResolvedHop = {
+  name: string;
+  from: ResolvedRouteAsset;
+  to: ResolvedRouteAsset;
+  rate: PriceRatio;
+  feeBps: number;
+  fixedFee: bigint;
+  mode: Rounding;
+  feeMode: Rounding;
+};
+
+export class Route {
+  private readonly registry: AssetRegistry;
+  private readonly slippageBps: number;
+  private readonly list: ResolvedHop[] = [];
+  private readonly declared: RouteHop[] = [];
+
+  constructor(opts: RouteOptions = {}) {
+    this.registry = opts.registry ?? DEC;
+    this.slippageBps = opts.slippageBps ?? 0;
+    assertBps('Route', 'slippageBps', this.slippageBps);
+  }
+
+  /** Append a hop; its `from` must be the previous hop's `to`. Decimals are resolved now. */
+  hop(h: RouteHop): this {
+    const i = this.list.length;
+    if (!h || !h.from || !h.to) throw new Error(`Route.hop: hop ${i} needs from and to`);
+    const from = this.resolve(h.from, i);
+    const to = this.resolve(h.to, i);
+    const prev = this.list[i - 1];
+    if (prev && !sameAsset(prev.to, from))
+      throw new Error(`Route.hop: hop ${i} starts with ${label(from)} but hop ${i - 1} ends with ${label(prev.to)}`);
+    const rate = h.rate === undefined ? { num: 1n, den: 1n } : typeof h.rate === 'string' ? parsePriceRatio(h.rate) : reducePrice(h.rate);
+    if (rate.num === 0n) throw new Error(`Route.hop: hop ${i} rate must be > 0`);
+    const feeBps = h.feeBps ?? 0;
+    assertBps('Route.hop', 'feeBps', feeBps);
+    const fixedFee = h.fixedFee === undefined ? 0n : typeof h.fixedFee === 'bigint' ? h.fixedFee : toMinor(h.fixedFee, from.decimals, { mode: 'ceil' });
+    if (fixedFee < 0n) throw new Error(`Route.hop: hop ${i} fixedFee must be >= 0`);
+    this.list.push({
+      name: h.name ?? `${label(from)}→${label(to)}`,
+      from, to, rate, feeBps, fixedFee,
+      mode: h.mode ?? 'floor',
+      feeMode: h.feeMode ?? 'ceil',
+    });
+    this.declared.push({ ...h, from: { ...h.from }, to: { ...h.to } });
+    return this;
+  }
+
+  /** Copies of the hops as passed to `hop`, in order (resolved decimals and defaults are in the quotes). */
+  hops(): RouteHop[] {
+    return this.declared.map((h) => ({
+      ...h,
+      from: { ...h.from },
+      to: { ...h.to },
+      ...(h.rate !== undefined && typeof h.rate !== 'string' ? { rate: { ...h.rate } } : {}),
+    }));
+  }
+
+  /** Spend exactly `amountIn` (first hop's FROM minor units). */
+  quoteExactIn(amountIn: bigint, opts: { slippageBps?: number } = {}): RouteQuote {
+    this.assertHops('quoteExactIn');
+    if (amountIn < 0n) throw new Error('Route.quoteExactIn: amountIn must be >= 0');
+    const slippageBps = opts.slippageBps ?? this.slippageBps;
+    assertBps('Route.quoteExactIn', 'slippageBps', slippageBps);
+    const hops = this.run(amountIn);
+    const amountOut = hops[hops.length - 1].amountOut;
+    return { type: 'exactIn', amountIn, amountOut, slippageBps, minOut: slippageDown(amountOut, slippageBps), hops };
+  }
+
+  /** Smallest input that delivers at least `amountOut` (last hop's TO minor units), solved hop by hop from the end. */
+  quoteExactOut(amountOut: bigint, opts: { slippageBps?: number } = {}): RouteQuote {
+    this.assertHops('quoteExactOut');
+    if (amountOut < 0n) throw new Error('Route.quoteExactOut: amountOut must be >= 0');
+    const slippageBps = opts.slippageBps ?? this.slippageBps;
+    assertBps('Route.quoteExactOut', 'slippageBps', slippageBps);
+    let need = amountOut;
+    for (let i = this.list.length - 1; i >= 0; i--) need = minInputFor(this.list[i], need, i);
+    const hops = this.run(need);
+    return {
+      type: 'exactOut',
+      amountIn: need,
+      amountOut: hops[hops.length - 1].amountOut,
+      targetOut: amountOut,
+      slippageBps,
+      maxIn: slippageUp(need, slippageBps),
+      hops,
+    };
+  }
+
+  private run(amountIn: bigint): RouteHopQuote[] {
+    const out: RouteHopQuote[] = [];
+    let amount = amountIn;
+    for (let i = 0; i < this.list.length; i++) {
+      const q = quoteHop(this.list[i], amount, i);
+      out.push(q);
+      amount = q.amountOut;
+    }
+    return out;
+  }
+
+  private resolve(asset: RouteAsset, i: number): ResolvedRouteAsset {
+    const decimals = asset.decimals ?? this.registry.lookup(asset)?.decimals;
+    if (decimals === undefined || !Number.isInteger(decimals) || decimals < 0)
+      throw new Error(`Route.hop: unknown decimals for ${label(asset)} in hop ${i}; register it or pass decimals`);
+    return { ...asset, decimals };
+  }
+
+  private assertHops(fn: string): void {
+    if (!this.list.length) throw new Error(`Route.${fn}: the route has no hops`);
+  }
+}
+
+/* ---------------- internal helpers ---------------- */
+
+function quoteHop(h: ResolvedHop, amountIn: bigint, i: number): RouteHopQuote {
+  const bpsFee = h.feeBps ? applyBps(amountIn, h.feeBps, h.feeMode) : 0n;
+  const totalFee = bpsFee + h.fixedFee;
+  const netIn = amountIn - totalFee;
+  if (netIn < 0n) throw new Error(`Route: hop ${i} (${h.name}) fees ${totalFee} exceed its input ${amountIn}`);
+  const amountOut = convertUnitsByDecimals(netIn, h.from.decimals, h.to.decimals, h.rate, h.mode);
+  const exactOut = Rational.of(
+    netIn * h.rate.num * 10n ** BigInt(h.to.decimals),
+    h.rate.den * 10n ** BigInt(h.from.decimals)
+  );
+  return {
+    name: h.name,
+    from: h.from,
+    to: h.to,
+    rate: h.rate,
+    amountIn,
+    bpsFee,
+    fixedFee: h.fixedFee,
+    totalFee,
+    netIn,
+    exactOut,
+    amountOut,
+    dust: exactOut.sub(amountOut),
+    feeDust: Rational.of(bpsFee).sub(Rational.of(amountIn * BigInt(h.feeBps), 10_000n)),
+  };
+}
+
+/** Smallest hop input whose output is >= `out` (the output is non-decreasing in the input). */
+function minInputFor(h: ResolvedHop, out: bigint, i: number): bigint {
+  if (out === 0n) return 0n;
+  const outOf = (a: bigint): bigint => {
+    const fee = (h.feeBps ? applyBps(a, h.feeBps, h.feeMode) : 0n) + h.fixedFee;
+    return a < fee ? -1n : convertUnitsByDecimals(a - fee, h.from.decimals, h.to.decimals, h.rate, h.mode);
+  };
+  // estimate: invert the conversion, then gross up for the fees
+  const net = convertUnitsByDecimals(out, h.to.decimals, h.from.decimals, { num: h.rate.den, den: h.rate.num }, 'ceil');
+  let hi = mulDiv(net + h.fixedFee, 10_000n, 10_000n - BigInt(h.feeBps), 'ceil');
+  for (let n = 0; outOf(hi) < out; n++) {
+    if (n > 256) throw new Error(`Route: hop ${i} (${h.name}) cannot deliver ${out}`);
+    hi = hi * 2n + 1n;
+  }
+  let lo = -1n; // outOf(lo) < out
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (mid >= 0n && outOf(mid) >= out) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+function sameAsset(a: ResolvedRouteAsset, b: ResolvedRouteAsset): boolean {
+  if (a.symbol.toUpperCase() !== b.symbol.toUpperCase() || a.decimals !== b.decimals) return false;
+  for (const k of ['chain', 'chainId', 'address', 'issuer', 'denom'] as const) {
+    if (a[k] !== undefined && b[k] !== undefined && String(a[k]) !== String(b[k])) return false;
+  }
+  return true;
+}
+
+function label(a: RouteAsset): string {
+  return a.chain ? `${a.symbol}@${a.chain}` : a.symbol;
+}
+
+function assertBps(fn: string, name: string, bps: number): void {
+  if (!Number.isInteger(bps) || bps < 0 || bps >= 10_000) throw new Error(`${fn}: ${name} must be an integer in [0, 10000)`);
+}
@@ -0,0 +1,270 @@
+import { describe, it, expect } from 'vitest';
+import {
+  stellarParseAssetId, stellarFetchDecimals, stellarEnsureDecimals, stellarEncodeStroops, stellarToMinorChecked,
+  stellarMinimumBalance, stellarTransactionFee, stellarFeeBumpFee, stellarPriceFromDecimal, stellarPriceToRatio,
+} from '../src/adapters/stellar';
+import { convertUnitsByDecimals } from '../src/core';
+import {
+  evmEncodeUint256, evmDecodeUint256, evmToMinorChecked, evmToWei, evmFromWei, evmFromHexQuantity, evmToHexQuantity,
+  evmEffectiveGasPrice, evmEstimateFee, evmEstimateL2Fee, evmBumpFees, evmBumpGasPrice,
+} from '../src/adapters/evm';
+import {
+  solanaEncodeU64, solanaDecodeU64, solanaToMinorChecked, solanaPriorityFee, solanaTransactionFee, solanaDefaultComputeUnitLimit,
+  solanaRentExemptMinimum, solanaTransferFee, solanaTransferGrossUp, solanaTransferInverseFee, solanaEpochTransferFee,
+} from '../src/adapters/solana';
+import {
+  cosmosEncodeInt, cosmosToMinorChecked, cosmosConvertDenom, cosmosFromBaseUnits, cosmosToBaseUnits, cosmosFetchDecimalsViaBank,
+  cosmosIbcDenom, cosmosParseIbcDenom, cosmosParseDenomTrace, cosmosParseCoins, cosmosFormatCoins, cosmosParseCoin,
+  cosmosParseDec, cosmosFormatDec, cosmosDecMul, cosmosDecQuo, cosmosDecMulInt, cosmosGasFee,
+} from '../src/adapters/cosmos';
+import { createDecimalsResolver } from '../src/resolver';
+import { createRegistry } from '../src/registry';
+
+const ISSUER = 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN';
+const CONTRACT = 'CCW67TSZV3SSS2HXMBQ5JFGCKJNXKZM7UQUWUZPUTHXSTZLEO7SJMI75';
+
+describe('stellar adapter', () => {
+  it('parses native, CODE:ISSUER and contract ids', () => {
+    expect(stellarParseAssetId('native')).toEqual({ type: 'native' });
+    expect(stellarParseAssetId(`USDC:${ISSUER}`)).toEqual({ type: 'classic', code: 'USDC', issuer: ISSUER });
+    expect(stellarParseAssetId(CONTRACT)).toEqual({ type: 'contract', contractId: CONTRACT });
+    expect(() => stellarParseAssetId('USDC')).toThrow(/CODE:ISSUER/);
+  });
+
+  it('fetches SEP-41 decimals via simulation and confirms classic assets on Horizon', async () => {
+    const calls: unknown[] = [];
+    const soroban = { simulateContractCall: async (args: unknown) => { calls.push(args); return 18; } };
+    const horizon = { loadAsset: async (code: string) => (code === 'USDC' ? { asset_code: code } : null) };
+    expect(await stellarFetchDecimals({ soroban }, CONTRACT)).toBe(18);
+    expect(calls).toEqual([{ contractId: CONTRACT, method: 'decimals', args: [] }]);
+    expect(await stellarFetchDecimals({ horizon }, `USDC:${ISSUER}`)).toBe(7);
+    expect(await stellarFetchDecimals({}, 'native')).toBe(7);
+    await expect(stellarFetchDecimals({ horizon }, `NOPE:${ISSUER}`)).rejects.toThrow(/asset not found/);
+    await expect(stellarFetchDecimals({}, CONTRACT)).rejects.toThrow(/soroban client/);
+  });
+
+  it('ensures decimals with the registry/fallback chain', async () => {
+    const soroban = { simulateContractCall: async () => { throw new Error('rpc down'); } };
+    expect(await stellarEnsureDecimals({ soroban: { simulateContractCall: async () => 6n }, asset: CONTRACT })).toBe(6);
+    expect(await stellarEnsureDecimals({ soroban, asset: CONTRACT }, 9)).toBe(9);
+  });
+
+  it('plugs into the decimals resolver', async () => {
+    const soroban = { simulateContractCall: async () => '6' };
+    const resolver = createDecimalsResolver({ clients: { stellar: { soroban } }, registry: createRegistry() });
+    expect(await resolver.resolve({ chain: 'stellar', symbol: 'USDC', address: CONTRACT }))
+      .toEqual({ decimals: 6, source: 'chain', cached: false });
+  });
+});
+
+describe('wire encoders', () => {
+  it('encodes uint256 ABI words', () => {
+    expect(evmEncodeUint256(255n)).toBe('0x' + '0'.repeat(62) + 'ff');
+    expect(evmEncodeUint256(-1n, 'int256')).toBe('0x' + 'f'.repeat(64));
+    expect(() => evmEncodeUint256(1n << 256n)).toThrow(/exceeds the maximum/);
+    expect(evmToMinorChecked('1.5', 6)).toBe(1_500_000n);
+    expect(() => evmToMinorChecked('-1')).toThrow(/below the minimum/);
+  });
+
+  it('encodes u64 little-endian', () => {
+    const bytes = solanaEncodeU64(1_000_000_001n);
+    expect(Array.from(bytes)).toEqual([0x01, 0xca, 0x9a, 0x3b, 0, 0, 0, 0]);
+    expect(solanaDecodeU64(bytes)).toBe(1_000_000_001n);
+    expect(solanaDecodeU64(solanaEncodeU64((1n << 64n) - 1n))).toBe((1n << 64n) - 1n);
+    expect(() => solanaEncodeU64(1n << 64n)).toThrow(/u64/);
+    expect(() => solanaToMinorChecked('0.0000000001')).toThrow(/decimals/);
+  });
+
+  it('encodes Cosmos ints and Stellar stroops as decimal strings', () => {
+    expect(cosmosEncodeInt(cosmosToMinorChecked('1.25'))).toBe('1250000');
+    expect(() => cosmosEncodeInt(-1n)).toThrow(/below the minimum/);
+    expect(stellarEncodeStroops(stellarToMinorChecked('12.3456789'))).toBe('123456789');
+    expect(() => stellarEncodeStroops(1n << 63n)).toThrow(/int64/);
+    expect(stellarEncodeStroops(1n << 63n, 'soroban')).toBe('9223372036854775808');
+  });
+});
+
+describe('cosmos denoms, coins and sdk.Dec', () => {
+  const ATOM = {
+    base: 'uatom',
+    display: 'atom',
+    denom_units: [
+      { denom: 'uatom', exponent: 0, aliases: ['microatom'] },
+      { denom: 'matom', exponent: 3, aliases: ['milliatom'] },
+      { denom: 'atom', exponent: 6 },
+    ],
+  };
+  const ATOM_ON_OSMOSIS = 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2';
+
+  it('converts between any pair of denom units', () => {
+    expect(cosmosConvertDenom(1_500_000n, 'uatom', 'matom', ATOM)).toBe(1500n);
+    expect(cosmosConvertDenom(1_500_001n, 'microatom', 'atom', ATOM, 'ceil')).toBe(2n);
+    expect(cosmosConvertDenom(15n, 'milliatom', 'uatom', ATOM)).toBe(15_000n);
+    expect(cosmosFromBaseUnits(1_500_000n, ATOM)).toBe('1.500000');
+    expect(cosmosToBaseUnits('2.5', ATOM, 'matom')).toBe(2500n);
+    expect(() => cosmosConvertDenom(1n, 'uatom', 'uosmo', ATOM)).toThrow(/not a unit/);
+  });
+
+  it('still reads the display exponent from bank metadata', async () => {
+    expect(await cosmosFetchDecimalsViaBank({ bankDenomMetadata: async () => ATOM }, 'uatom')).toBe(6);
+    await expect(cosmosFetchDecimalsViaBank({ bankDenomMetadata: async () => null }, 'ufoo')).rejects.toThrow(/not found/);
+  });
+
+  it('hashes and parses IBC denoms', () => {
+    expect(cosmosIbcDenom('transfer/channel-0/uatom')).toBe(ATOM_ON_OSMOSIS);
+    expect(cosmosIbcDenom('uatom')).toBe('uatom');
+    expect(cosmosParseDenomTrace('transfer/channel-0/gamm/pool/1')).toEqual({ path: 'transfer/channel-0', baseDenom: 'gamm/pool/1' });
+    expect(cosmosParseIbcDenom('ibc/' + ATOM_ON_OSMOSIS.slice(4).toLowerCase())).toEqual({ hash: ATOM_ON_OSMOSIS.slice(4) });
+    expect(() => cosmosParseIbcDenom('ibc/XYZ')).toThrow(/64 hex/);
+  });
+
+  it('parses and formats sdk.Coins', () => {
+    const coins = cosmosParseCoins(`5${ATOM_ON_OSMOSIS},1000uatom,0uosmo`);
+    expect(coins).toEqual([{ denom: ATOM_ON_OSMOSIS, amount: 5n }, { denom: 'uatom', amount: 1000n }]);
+    expect(cosmosFormatCoins(coins)).toBe(`5${ATOM_ON_OSMOSIS},1000uatom`);
+    expect(cosmosParseCoins('')).toEqual([]);
+    expect(() => cosmosParseCoins('1uatom,2uatom')).toThrow(/duplicate/);
+    expect(() => cosmosParseCoin('-1uatom')).toThrow(/invalid coin/);
+    expect(() => cosmosParseCoin('1.5uatom')).toThrow(/invalid coin/);
+  });
+
+  it('handles sdk.Dec with 18 decimals', () => {
+    expect(cosmosParseDec('0.025')).toBe(25n * 10n ** 15n);
+    expect(cosmosFormatDec(cosmosParseDec('0.05'))).toBe('0.050000000000000000');
+    expect(() => cosmosParseDec('0.0000000000000000001')).toThrow(/18 decimals/);
+    expect(cosmosDecMul(cosmosParseDec('0.1'), cosmosParseDec('0.05'))).toBe(cosmosParseDec('0.005'));
+    // ties round half to even, like LegacyDec
+    expect(cosmosDecMul(cosmosParseDec('0.5'), 1n)).toBe(0n);
+    expect(cosmosDecMul(cosmosParseDec('0.5'), 3n)).toBe(2n);
+    expect(cosmosDecMul(cosmosParseDec('0.5'), 1n, 'round')).toBe(1n);
+    expect(cosmosDecQuo(1n, cosmosParseDec('2'))).toBe(0n);
+    expect(cosmosDecQuo(3n, cosmosParseDec('2'))).toBe(2n);
+    expect(cosmosDecMulInt(cosmosParseDec('0.05'), 1_000_001n)).toBe(50_001n);
+    expect(cosmosGasFee('0.025uatom', 200_001)).toEqual({ denom: 'uatom', amount: 5001n });
+  });
+});
+
+describe('evm units, hex and fees', () => {
+  const GWEI = 10n ** 9n;
+
+  it('converts named units', () => {
+    expect(evmToWei('1.5', 'gwei')).toBe(1_500_000_000n);
+    expect(evmToWei('1')).toBe(10n ** 18n);
+    expect(evmToWei('2', 'finney')).toBe(2n * 10n ** 15n);
+    expect(evmFromWei(1_500_000_000n, 'gwei')).toBe('1.500000000');
+    expect(() => evmToWei('0.0000000001', 'gwei')).toThrow(/decimals/);
+    expect(evmToWei('0.0000000001', 'gwei', { mode: 'ceil' })).toBe(1n);
+  });
+
+  it('round-trips hex quantities and ABI words', () => {
+    expect(evmFromHexQuantity('0x1a')).toBe(26n);
+    expect(evmToHexQuantity(0n)).toBe('0x0');
+    expect(evmToHexQuantity(26n)).toBe('0x1a');
+    expect(() => evmFromHexQuantity('0x')).toThrow(/invalid/);
+    expect(() => evmToHexQuantity(-1n)).toThrow(/below the minimum/);
+    expect(evmDecodeUint256(evmEncodeUint256(-2n, 'int256'), 'int256')).toBe(-2n);
+  });
+
+  it('computes EIP-1559 max and expected cost', () => {
+    expect(evmEffectiveGasPrice({ baseFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 2n * GWEI, maxFeePerGas: 31n * GWEI })).toBe(31n * GWEI);
+    const fee = evmEstimateFee({ gasLimit: 21_000n, baseFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 2n * GWEI });
+    expect(fee.maxFeePerGas).toBe(62n * GWEI);
+    expect(fee.maxCost).toBe(21_000n * 62n * GWEI);
+    expect(fee.expectedCost).toBe(21_000n * 32n * GWEI);
+    expect(evmEstimateFee({ gasLimit: 100_000n, gasUsed: 60_000n, gasPrice: 5n * GWEI }).expectedCost).toBe(300_000n * GWEI);
+    expect(() => evmEstimateFee({ gasLimit: 1n, baseFeePerGas: 10n, maxPriorityFeePerGas: 1n, maxFeePerGas: 9n })).toThrow(/below baseFeePerGas/);
+  });
+
+  it('adds the L1 data fee on rollups', () => {
+    const fee = evmEstimateL2Fee({ gasLimit: 100_000n, gasUsed: 50_000n, baseFeePerGas: 1_000_000n, maxPriorityFeePerGas: 1_000n, maxFeePerGas: 2_000_000n, l1DataFee: 40_000_000_000n, l1DataFeeBufferBps: 2500 });
+    expect(fee.l2ExecutionFee.expectedCost).toBe(50_000n * 1_001_000n);
+    expect(fee.expectedCost).toBe(50_000n * 1_001_000n + 40_000_000_000n);
+    expect(fee.maxCost).toBe(100_000n * 2_000_000n + 50_000_000_000n);
+  });
+
+  it('bumps replacement fees with ceil rounding', () => {
+    expect(evmBumpGasPrice(15n)).toBe(17n); // 16.5 → 17
+    expect(evmBumpFees({ maxFeePerGas: 100n, maxPriorityFeePerGas: 3n }, 1250)).toEqual({ maxFeePerGas: 113n, maxPriorityFeePerGas: 4n });
+    expect(evmBumpFees({ gasPrice: 20n * GWEI })).toEqual({ gasPrice: 22n * GWEI });
+  });
+});
+
+describe('solana fees, rent and Token-2022 transfer fees', () => {
+  it('computes priority and total transaction fees', () => {
+    expect(solanaPriorityFee(1n, 200_000)).toBe(1n); // 0.2 lamports rounds up
+    expect(solanaPriorityFee(50_000n, 300_000)).toBe(15_000n);
+    expect(solanaDefaultComputeUnitLimit(3)).toBe(600_000);
+    expect(solanaDefaultComputeUnitLimit(10)).toBe(1_400_000);
+    expect(solanaTransactionFee({ signatures: 2, computeUnitPriceMicroLamports: 10_001n, computeUnitLimit: 100_000 }))
+      .toEqual({ baseFee: 10_000n, priorityFee: 1001n, total: 11_001n });
+    // no SetComputeUnitLimit: the price is charged on the runtime default, not on 0
+    expect(solanaTransactionFee({ signatures: 1, computeUnitPriceMicroLamports: 1_000n, nonBuiltinInstructions: 2 }).priorityFee).toBe(400n);
+    expect(() => solanaTransactionFee({ signatures: 1, computeUnitPriceMicroLamports: 1_000n })).toThrow(/needs computeUnitLimit/);
+  });
+
+  it('matches the runtime rent-exempt minimums', () => {
+    expect(solanaRentExemptMinimum(0)).toBe(890_880n);
+    expect(solanaRentExemptMinimum(165)).toBe(2_039_280n);
+    expect(solanaRentExemptMinimum(82, { exemptionThreshold: '1.5' })).toBe(1_096_200n);
+  });
+
+  it('charges the transfer fee with ceiling rounding and a cap', () => {
+    const fee = { transferFeeBasisPoints: 50, maximumFee: 5_000n };
+    expect(solanaTransferFee(1n, fee)).toBe(1n);
+    expect(solanaTransferFee(10_001n, fee)).toBe(51n);
+    expect(solanaTransferFee(10_000_000n, fee)).toBe(5_000n);
+    expect(solanaTransferFee(0n, fee)).toBe(0n);
+  });
+
+  it('grosses up so the recipient receives the net amount', () => {
+    const fee = { transferFeeBasisPoints: 50, maximumFee: 5_000n };
+    for (const net of [1n, 199n, 9_950n, 999_999n, 10_000_000n]) {
+      const gross = solanaTransferGrossUp(net, fee);
+      expect(gross - solanaTransferFee(gross, fee)).toBeGreaterThanOrEqual(net);
+      expect(solanaTransferInverseFee(net, fee)).toBe(solanaTransferFee(gross, fee));
+    }
+    expect(solanaTransferGrossUp(9_950n, fee)).toBe(10_000n);
+    expect(solanaTransferGrossUp(10_000_000n, fee)).toBe(10_005_000n);
+    expect(solanaTransferGrossUp(7n, { transferFeeBasisPoints: 10_000, maximumFee: 3n })).toBe(10n);
+  });
+
+  it('picks the fee for the epoch', () => {
+    const older = { epoch: 0n, transferFeeBasisPoints: 10, maximumFee: 1n };
+    const newer = { epoch: 500n, transferFeeBasisPoints: 20, maximumFee: 2n };
+    expect(solanaEpochTransferFee({ olderTransferFee: older, newerTransferFee: newer }, 499n)).toBe(older);
+    expect(solanaEpochTransferFee({ olderTransferFee: older, newerTransferFee: newer }, 500n)).toBe(newer);
+  });
+});
+
+describe('stellar reserves, fees and prices', () => {
+  it('computes the minimum balance from subentries and sponsorships', () => {
+    expect(stellarMinimumBalance({ subentries: 0 })).toBe(10_000_000n); // 1 XLM
+    expect(stellarMinimumBalance({ subentries: 3, sponsoring: 2, sponsored: 1 })).toBe(30_000_000n);
+    expect(stellarMinimumBalance({ subentries: 1 }, 1_000_000n)).toBe(3_000_000n);
+    expect(() => stellarMinimumBalance({ subentries: 0, sponsored: 3 })).toThrow(/sponsored/);
+  });
+
+  it('computes transaction and fee-bump fees', () => {
+    expect(stellarTransactionFee(3)).toBe(300n);
+    expect(stellarTransactionFee(2, 1_000n)).toBe(2_000n);
+    expect(stellarFeeBumpFee(3, 200n)).toBe(800n);
+    expect(() => stellarTransactionFee(0)).toThrow(/operations/);
+  });
+
+  it('approximates prices like best_r', () => {
+    expect(stellarPriceFromDecimal('1.25')).toEqual({ n: 5, d: 4 });
+    expect(stellarPriceFromDecimal('0.1')).toEqual({ n: 1, d: 10 });
+    expect(stellarPriceFromDecimal('2.93850088')).toEqual({ n: 36731261, d: 12500000 });
+    expect(stellarPriceFromDecimal({ num: 1n, den: 3n })).toEqual({ n: 1, d: 3 });
+    expect(stellarPriceFromDecimal('0.33333333')).toEqual({ n: 33333333, d: 100000000 });
+    expect(() => stellarPriceFromDecimal('1000000000000')).toThrow(/approximation/);
+    expect(() => stellarPriceFromDecimal('0.0000000001')).toThrow(/approximation/);
+  });
+
+  it('turns a Price back into a ratio for conversions', () => {
+    const ratio = stellarPriceToRatio({ n: 5, d: 4 });
+    expect(ratio).toEqual({ num: 5n, den: 4n });
+    expect(convertUnitsByDecimals(10_000_000n, 7, 7, ratio)).toBe(12_500_000n);
+    expect(() => stellarPriceToRatio({ n: 0, d: 1 })).toThrow(/int32/);
+  });
+});
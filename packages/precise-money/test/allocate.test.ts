@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { allocate, allocateWithDust, splitEvenly } from '../src/allocate';
+
+const sum = (xs: bigint[]) => xs.reduce((a, b) => a + b, 0n);
+
+describe('allocate', () => {
+  it('splits by ratio with largest-remainder dust', () => {
+    expect(allocate(100n, [70, 20, 10])).toEqual([70n, 20n, 10n]);
+    expect(allocate(101n, [7000, 2000, 1000], { weights: 'bps' })).toEqual([71n, 20n, 10n]);
+    expect(allocate(10n, ['0.5', '0.25', '0.25'])).toEqual([5n, 3n, 2n]);
+    expect(allocate(100n, [1n, 1n, 1n])).toEqual([34n, 33n, 33n]);
+    const parts = allocate(1_000_003n, [3n, 7n, 11n, 13n]);
+    expect(sum(parts)).toBe(1_000_003n);
+    expect(() => allocate(1n, [5000, 4000], { weights: 'bps' })).toThrow(/sum to 10000/);
+  });
+
+  it('supports the other remainder strategies', () => {
+    expect(allocate(11n, [1, 1, 1], { strategy: 'firstN' })).toEqual([4n, 4n, 3n]);
+    expect(allocate(11n, [1, 1, 1], { strategy: 'roundRobin', startIndex: 2 })).toEqual([4n, 3n, 4n]);
+    expect(allocate(11n, [1, 1, 1], { strategy: 'toIndex', remainderIndex: 1 })).toEqual([3n, 5n, 3n]);
+    expect(allocate(11n, [1, 0, 1], { strategy: 'firstN' })).toEqual([6n, 0n, 5n]);
+  });
+
+  it('handles negative totals and a minimum per share', () => {
+    expect(allocate(-101n, [1, 1])).toEqual([-51n, -50n]);
+    const parts = allocate(1000n, [98, 1, 1], { minPerShare: 50n });
+    expect(parts).toEqual([900n, 50n, 50n]);
+    expect(() => allocate(99n, [1, 1], { minPerShare: 50n })).toThrow(/minPerShare/);
+  });
+
+  it('returns dust explicitly and splits evenly', () => {
+    expect(allocateWithDust(100n, [1, 1, 1])).toEqual({ shares: [33n, 33n, 33n], dust: 1n });
+    expect(allocateWithDust(-100n, [1, 1, 1])).toEqual({ shares: [-33n, -33n, -33n], dust: -1n });
+    expect(splitEvenly(10n, 3)).toEqual([4n, 3n, 3n]);
+    expect(splitEvenly(-10n, 4)).toEqual([-3n, -3n, -2n, -2n]);
+  });
+});
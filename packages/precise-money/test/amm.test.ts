@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAmountOut, getAmountIn, getAmountsOut, getAmountsIn, midPrice, executionPrice, priceImpactBps, quoteExactIn, quoteExactOut,
+} from '../src/amm';
+import { convertUnitsByDecimals } from '../src/core';
+
+describe('constant-product AMM', () => {
+  it('matches UniswapV2Library rounding', () => {
+    // UniswapV2Router02 test vectors (0.30% fee)
+    expect(getAmountOut(2n, 100n, 100n)).toBe(1n);
+    expect(getAmountIn(1n, 100n, 100n)).toBe(2n);
+    expect(getAmountOut(1000n, 1_000_000n, 1_000_000n)).toBe(996n);
+    expect(getAmountIn(996n, 1_000_000n, 1_000_000n)).toBe(1000n);
+    expect(getAmountOut(1000n, 1_000_000n, 1_000_000n, 0)).toBe(999n);
+    expect(() => getAmountIn(100n, 100n, 100n)).toThrow(/insufficient liquidity/);
+    expect(() => getAmountOut(1n, 0n, 100n)).toThrow(/insufficient liquidity/);
+    expect(() => getAmountOut(1n, 100n, 100n, 10_000)).toThrow(/feeBps/);
+  });
+
+  it('chains multi-hop routes both ways', () => {
+    const route = [
+      { reserveIn: 5_000_000n, reserveOut: 10_000_000n },
+      { reserveIn: 20_000_000n, reserveOut: 4_000_000n, feeBps: 5 },
+    ];
+    const out = getAmountsOut(10_000n, route);
+    expect(out).toEqual([10_000n, getAmountOut(10_000n, 5_000_000n, 10_000_000n), out[2]]);
+    expect(out[2]).toBe(getAmountOut(out[1], 20_000_000n, 4_000_000n, 5));
+    const back = getAmountsIn(out[2], route);
+    expect(back[2]).toBe(out[2]);
+    expect(back[0]).toBeLessThanOrEqual(10_000n);
+    expect(getAmountsOut(back[0], route)[2]).toBeGreaterThanOrEqual(out[2]);
+  });
+
+  it('expresses prices as ratios for convertUnitsByDecimals', () => {
+    // 1_000 ETH (18) vs 2_000_000 USDC (6) → 2000 USDC per ETH
+    const rIn = 1_000n * 10n ** 18n;
+    const rOut = 2_000_000n * 10n ** 6n;
+    const mid = midPrice(rIn, rOut, 18, 6);
+    expect(convertUnitsByDecimals(10n ** 18n, 18, 6, mid)).toBe(2_000_000_000n);
+    const out = getAmountOut(10n ** 18n, rIn, rOut);
+    const exec = executionPrice(10n ** 18n, out, 18, 6);
+    expect(convertUnitsByDecimals(10n ** 18n, 18, 6, exec)).toBe(out);
+  });
+
+  it('reports price impact and slippage-protected quotes', () => {
+    const pool = [{ reserveIn: 1_000_000n, reserveOut: 1_000_000n, feeBps: 0 }];
+    expect(priceImpactBps(100_000n, getAmountOut(100_000n, 1_000_000n, 1_000_000n, 0), pool)).toBe(910);
+    const q = quoteExactIn(1000n, [{ reserveIn: 1_000_000n, reserveOut: 1_000_000n }], 50);
+    expect(q).toEqual({ amountIn: 1000n, amountOut: 996n, minAmountOut: 991n, amounts: [1000n, 996n], priceImpactBps: 40 });
+    const r = quoteExactOut(996n, [{ reserveIn: 1_000_000n, reserveOut: 1_000_000n }], 50);
+    expect(r).toMatchObject({ amountIn: 1000n, maxAmountIn: 1005n, amounts: [1000n, 996n] });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { Amount } from '../src/amount';
+import type { AssetId } from '../src/registry';
+
+const USDC: AssetId = { chain: 'evm', chainId: 1, symbol: 'USDC', address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48' };
+const WETH: AssetId = { chain: 'evm', chainId: 1, symbol: 'WETH', address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2' };
+
+describe('Amount', () => {
+  it('adds, subtracts and compares amounts of the same asset', () => {
+    const a = Amount.of('1.5', USDC, 6);
+    const b = Amount.fromMinor(250_000n, USDC, 6);
+    expect(a.add(b).minor).toBe(1_750_000n);
+    expect(a.sub(b).toString()).toBe('1.250000 USDC');
+    expect(a.compare(b)).toBe(1);
+    expect(b.lt(a)).toBe(true);
+    expect(a.negate().isNegative()).toBe(true);
+  });
+
+  it('refuses to mix assets or decimals unless rescaled', () => {
+    const usdc = Amount.of('1', USDC, 6);
+    expect(() => usdc.add(Amount.of('1', WETH, 18))).toThrow(/asset mismatch/);
+    expect(() => usdc.add(Amount.of('1', USDC, 18))).toThrow(/decimals mismatch/);
+    expect(usdc.rescale(18).add(Amount.of('1', USDC, 18)).toString()).toBe('2.000000000000000000 USDC');
+  });
+
+  it('allocate keeps the total exact (including negatives)', () => {
+    const parts = Amount.fromMinor(100n, USDC, 6).allocate([1, 1, 1]);
+    expect(parts.map((p) => p.minor)).toEqual([34n, 33n, 33n]);
+    const neg = Amount.fromMinor(-5n, USDC, 6).allocate([70n, 30n]);
+    expect(neg.map((p) => p.minor)).toEqual([-4n, -1n]);
+  });
+
+  it('round-trips through toString and toJSON', () => {
+    const a = Amount.of('-12.345678', USDC, 6);
+    expect(Amount.parse(a.toString(), USDC, 6).equals(a)).toBe(true);
+    const back = Amount.fromJSON(JSON.stringify(a));
+    expect(back.equals(a)).toBe(true);
+    expect(a.toJSON()).toEqual({ asset: USDC, decimals: 6, minor: '-12345678', amount: '-12.345678' });
+  });
+
+  it('resolves decimals from the registry when omitted', () => {
+    expect(Amount.of('1', { chain: 'stellar', symbol: 'USDC' }).minor).toBe(1_000_000n);
+    expect(() => Amount.of('1', { chain: 'evm', symbol: 'UNKNOWN' })).toThrow(/unknown decimals/);
+  });
+});
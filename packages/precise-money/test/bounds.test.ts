@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { assertFitsChain, fitsChain, chainBounds, toMinorForChain, AmountRangeError, U64_MAX, I64_MAX, I128_MAX, U256_MAX } from '../src';
+
+function codeOf(fn: () => unknown): string | undefined {
+  try { fn(); } catch (e) { return e instanceof AmountRangeError ? e.code : 'other'; }
+  return undefined;
+}
+
+describe('chain bounds', () => {
+  it('exposes typed ranges with per-chain defaults', () => {
+    expect(chainBounds('solana').max).toBe(U64_MAX);
+    expect(chainBounds('stellar').max).toBe(I64_MAX);
+    expect(chainBounds('stellar', 'soroban').max).toBe(I128_MAX);
+    expect(chainBounds('evm').max).toBe(U256_MAX);
+    expect(chainBounds('cosmos', 'int').min).toBe(-U256_MAX);
+  });
+
+  it('accepts the edges and rejects one past them', () => {
+    expect(assertFitsChain(U64_MAX, 'solana')).toBe(U64_MAX);
+    expect(codeOf(() => assertFitsChain(U64_MAX + 1n, 'solana'))).toBe('OVERFLOW');
+    expect(codeOf(() => assertFitsChain(I64_MAX + 1n, 'stellar'))).toBe('OVERFLOW');
+    expect(fitsChain(I64_MAX + 1n, 'stellar', 'soroban')).toBe(true);
+    expect(codeOf(() => assertFitsChain(U256_MAX + 1n, 'evm'))).toBe('OVERFLOW');
+    expect(codeOf(() => assertFitsChain(-(1n << 255n) - 1n, 'evm', 'int256'))).toBe('UNDERFLOW');
+  });
+
+  it('rejects negatives for amount kinds', () => {
+    expect(codeOf(() => assertFitsChain(-1n, 'cosmos'))).toBe('NEGATIVE');
+    expect(assertFitsChain(-1n, 'cosmos', 'int')).toBe(-1n);
+    expect(() => assertFitsChain(-5n, 'solana')).toThrow(/solana u64: -5 is below the minimum 0/);
+  });
+
+  it('checked toMinor refuses values the asset cannot represent', () => {
+    expect(toMinorForChain('1.5', 6, 'solana')).toBe(1_500_000n);
+    expect(codeOf(() => toMinorForChain('1.0000001', 6, 'solana'))).toBe('NOT_REPRESENTABLE');
+    expect(toMinorForChain('1.0000001', 6, 'solana', { mode: 'floor' })).toBe(1_000_000n);
+    expect(codeOf(() => toMinorForChain('18446744073709.551616', 6, 'solana'))).toBe('OVERFLOW');
+    expect(codeOf(() => toMinorForChain('-1', 7, 'stellar'))).toBe('NEGATIVE');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSqrtRatioAtTick, getTickAtSqrtRatio, nearestUsableTick, sqrtPriceX96ToRatio, ratioToSqrtPriceX96, tickToRatio, ratioToTick,
+  mulDivFloor, mulDivCeil, qMul, qDiv, ratioToQ, qToRatio, MIN_TICK, MAX_TICK, MIN_SQRT_RATIO, MAX_SQRT_RATIO, Q96, Q128,
+} from '../src/clmm';
+import { convertUnitsByDecimals, divToDecimalString } from '../src/core';
+
+describe('TickMath', () => {
+  it('matches the on-chain bounds and round-trips ticks', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(0)).toBe(Q96);
+    for (const t of [MIN_TICK, -50, -1, 0, 1, 50, 12345, MAX_TICK - 1]) {
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(t))).toBe(t);
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(t + 1) - 1n)).toBe(t);
+    }
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow(/out of range/);
+    expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).toThrow(/out of range/);
+  });
+
+  it('tracks sqrt(1.0001^tick) for every bit of the tick', () => {
+    for (let i = 0; i < 20; i++) {
+      for (const t of [1 << i, -(1 << i)]) {
+        if (Math.abs(t) > MAX_TICK) continue;
+        const got = Number(getSqrtRatioAtTick(t)) / 2 ** 96;
+        expect(Math.abs(got / Math.pow(1.0001, t / 2) - 1)).toBeLessThan(1e-9);
+      }
+    }
+  });
+
+  it('rounds to usable ticks', () => {
+    expect(nearestUsableTick(15, 10)).toBe(20);
+    expect(nearestUsableTick(-14, 10)).toBe(-10);
+    expect(nearestUsableTick(MAX_TICK, 60)).toBe(887220);
+    expect(nearestUsableTick(MIN_TICK, 60)).toBe(-887220);
+  });
+});
+
+describe('CLMM prices', () => {
+  // WETH (18) / USDC (6) pool with token0 = USDC: ~2000 USDC per WETH
+  const sqrtPriceX96 = 1771595571142957102961017161607260n;
+
+  it('converts sqrtPriceX96 to a decimals-adjusted ratio and back', () => {
+    const usdcPerWeth = sqrtPriceX96ToRatio(sqrtPriceX96, 6, 18, { invert: true });
+    expect(divToDecimalString(usdcPerWeth.num, usdcPerWeth.den, 2)).toBe('2000.00');
+    expect(convertUnitsByDecimals(10n ** 18n, 18, 6, usdcPerWeth, 'floor')).toBe(2_000_000_000n);
+    const wethPerUsdc = sqrtPriceX96ToRatio(sqrtPriceX96, 6, 18);
+    const back = ratioToSqrtPriceX96(wethPerUsdc, 6, 18);
+    expect(back).toBe(sqrtPriceX96);
+    expect(ratioToSqrtPriceX96({ num: 2000n, den: 1n }, 6, 18, { invert: true, mode: 'ceil' })).toBeGreaterThanOrEqual(sqrtPriceX96 - 1n);
+  });
+
+  it('maps prices to ticks and ticks to prices', () => {
+    const tick = ratioToTick({ num: 2000n, den: 1n }, 6, 18, { invert: true });
+    expect(tick).toBe(getTickAtSqrtRatio(ratioToSqrtPriceX96({ num: 2000n, den: 1n }, 6, 18, { invert: true })));
+    const atTick = tickToRatio(tick, 6, 18, { invert: true });
+    expect(divToDecimalString(atTick.num, atTick.den, 2)).toBe('2000.04'); // ticks are 1 bp apart
+    const next = tickToRatio(tick + 1, 6, 18, { invert: true });
+    expect(next.num * 1n < 2000n * next.den).toBe(true);
+    const one = tickToRatio(0, 18, 18);
+    expect(one).toEqual({ num: Q96 * Q96 * 10n ** 18n, den: Q96 * Q96 * 10n ** 18n });
+  });
+});
+
+describe('FullMath / Q formats', () => {
+  it('floors and ceils like mulDiv / mulDivRoundingUp', () => {
+    expect(mulDivFloor(Q128, 50n, 150n)).toBe(Q128 / 3n);
+    expect(mulDivCeil(Q128, 50n, 150n)).toBe(Q128 / 3n + 1n);
+    expect(mulDivCeil(Q128, 1000n, 250n)).toBe(Q128 * 4n);
+    expect(() => mulDivFloor(Q128, Q128, 1n)).toThrow(/overflows uint256/);
+    expect(() => mulDivFloor(1n, 1n, 0n)).toThrow(/denominator/);
+    expect(() => mulDivCeil(-1n, 1n, 1n)).toThrow(/uint256/);
+  });
+
+  it('multiplies, divides and converts Q64.96 / Q128.128 values', () => {
+    const half96 = ratioToQ({ num: 1n, den: 2n }, 96);
+    expect(half96).toBe(Q96 / 2n);
+    expect(qMul(half96, 3n * Q96, 96)).toBe((3n * Q96) / 2n);
+    expect(qDiv(Q128, 3n * Q128, 128)).toBe(Q128 / 3n);
+    expect(qDiv(Q128, 3n * Q128, 128, 'ceil')).toBe(Q128 / 3n + 1n);
+    expect(qToRatio(half96, 96)).toEqual({ num: Q96 / 2n, den: Q96 });
+  });
+});
@@ -44,6 +44,15 @@ describe('core money math', () => {
   it('divToDecimalString', () => {
     expect(divToDecimalString(123n, 10n, 4)).toBe('12.3000');
   });
+
+  it('divToDecimalString rounding and scale 0', () => {
+    expect(divToDecimalString(2n, 3n, 2)).toBe('0.66');
+    expect(divToDecimalString(2n, 3n, 2, 'round')).toBe('0.67');
+    expect(divToDecimalString(-2n, 3n, 2, 'floor')).toBe('-0.67');
+    expect(divToDecimalString(7n, 2n, 0)).toBe('3');
+    expect(divToDecimalString(7n, 2n, 0, 'bankers')).toBe('4');
+    expect(avgFiatPricePerUnit({ filledQtyMinor: 3n, spentFiatMinor: 200n, outDecimals: 0, fiatDecimals: 2, scale: 2, mode: 'round' })).toBe('0.67');
+  });
 });
 
 /* --------------------------------------------- */
@@ -61,11 +70,32 @@ describe('rounding & normalization', () => {
     expect(toMinor('1.2335', 3, { mode: 'bankers' })).toBe(1234n);
   });
 
-  it('toMinor negative values (behavior matches implementation)', () => {
-    // Nota: o helper aplica ajuste antes do sinal; veja README para política
-    expect(toMinor('-1.2345', 3)).toBe(-1235n);              // round
-    expect(toMinor('-1.2345', 3, { mode: 'floor' })).toBe(-1234n); // "floor" aqui mantém base (ver doc)
-    expect(toMinor('-1.2345', 3, { mode: 'ceil'  })).toBe(-1235n);
+  it('toMinor negative values round on the number line (sign-aware)', () => {
+    expect(toMinor('-1.2345', 3)).toBe(-1235n);                      // round: half away from zero
+    expect(toMinor('-1.2345', 3, { mode: 'floor' })).toBe(-1235n);   // toward -infinity
+    expect(toMinor('-1.2345', 3, { mode: 'ceil'  })).toBe(-1234n);   // toward +infinity
+    expect(toMinor('-1.2345', 3, { mode: 'trunc' })).toBe(-1234n);
+    expect(toMinor('-1.2341', 3, { mode: 'expand' })).toBe(-1235n);
+  });
+
+  it('toMinor rounds the full fractional tail', () => {
+    expect(toMinor('1.2341', 3)).toBe(1234n);                          // below half → down
+    expect(toMinor('1.23450001', 3, { mode: 'bankers' })).toBe(1235n); // above half → up
+    expect(toMinor('1.2345', 3, { mode: 'halfDown' })).toBe(1234n);
+    expect(toMinor('1.23451', 3, { mode: 'halfDown' })).toBe(1235n);
+    expect(toMinor('1.2340000', 3, { mode: 'expand' })).toBe(1234n);   // trailing zeros are exact
+    expect(toMinor('0.0001', 3, { mode: 'ceil' })).toBe(1n);
+  });
+
+  it('toMinor agrees with mulDiv for every mode', () => {
+    const modes = ['floor', 'ceil', 'trunc', 'expand', 'round', 'halfDown', 'bankers'] as const;
+    for (const mode of modes) {
+      for (const s of ['7.125', '-7.125', '7.135', '-7.1355', '0.0049']) {
+        const fracLen = s.split('.')[1].length;
+        const exact = BigInt(s.replace('.', ''));
+        expect(toMinor(s, 2, { mode })).toBe(mulDiv(exact, 1, 10n ** BigInt(fracLen - 2), mode));
+      }
+    }
   });
 
   it('normalizeAmountInput accepts mixed separators', () => {
@@ -132,11 +162,17 @@ describe('price & conversion', () => {
     expect(out).toBe(2_000_000n);
   });
 
-  it('convertUnitsByDecimals with rounding (2→7, price=5.4321 truncated to 5.43)', () => {
+  it('convertUnitsByDecimals rounds once (2→7, price=5.4321 truncated to 5.43)', () => {
     const pr = priceRatioDecimals(2, '5.4321'); // {543/100}
     // amount=10.50 USD → 1050 minor
-    const out = convertUnitsByDecimals(1050n, 2, 7, pr); // round inside mulDiv
-    // 1050 * 543 / 100 = 5701.5 → round → 5702, then * 10^(5) = 570_200_000
-    expect(out).toBe(570_200_000n);
+    const out = convertUnitsByDecimals(1050n, 2, 7, pr);
+    // 1050 * 543 / 100 * 10^5 = 570_150_000 exactly (no intermediate rounding to 5702)
+    expect(out).toBe(570_150_000n);
+  });
+
+  it('convertUnitsByDecimals rounds once when scaling down (7→2)', () => {
+    // 0.0099999 TOKEN at 0.50 → 0.00499995 USD → 0 cents (rounding 49_999.5 first would give 1 cent)
+    expect(convertUnitsByDecimals(99_999n, 7, 2, { num: 1n, den: 2n }, 'round')).toBe(0n);
+    expect(convertUnitsByDecimals(100_000n, 7, 2, { num: 1n, den: 2n }, 'round')).toBe(1n);
   });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createFeeSchedule } from '../src/fees';
+
+const USDC = { decimals: 6 };
+
+describe('fee schedule', () => {
+  const schedule = createFeeSchedule([
+    { name: 'platform', kind: 'platform', inclusion: 'included', mode: 'ceil', bps: 50, min: '0.50', max: '25',
+      tiers: { vip: { bps: 20 } }, volumeTiers: [{ from: '10000', bps: 30 }, { from: '100000', bps: 10 }] },
+    { name: 'network', kind: 'network', inclusion: 'onTop', mode: 'ceil', fixed: '0.05' },
+    { name: 'partner', kind: 'partner', inclusion: 'included', mode: 'floor', bps: 15, side: 'buy' },
+  ]);
+
+  it('itemizes fees and balances gross = net + fees', () => {
+    const q = schedule.quote(1_000_000_000n, { ...USDC, side: 'buy' }); // 1,000 USDC
+    expect(q.fees).toEqual([
+      { name: 'platform', kind: 'platform', inclusion: 'included', amount: 5_000_000n },
+      { name: 'network', kind: 'network', inclusion: 'onTop', amount: 50_000n },
+      { name: 'partner', kind: 'partner', inclusion: 'included', amount: 1_500_000n },
+    ]);
+    expect(q).toMatchObject({ amount: 1_000_000_000n, gross: 1_000_050_000n, net: 993_500_000n, totalFees: 6_550_000n });
+    expect(q.gross).toBe(q.net + q.totalFees);
+  });
+
+  it('applies side, caps, customer tiers and volume tiers', () => {
+    const sell = schedule.quote(10_000_000n, { ...USDC, side: 'sell' }); // 10 USDC → min 0.50
+    expect(sell.fees.map((f) => [f.name, f.amount])).toEqual([['platform', 500_000n], ['network', 50_000n]]);
+    expect(schedule.quote(10_000_000_000n, USDC).fees[0].amount).toBe(25_000_000n);          // 10k @ 30 bps = 30 → max 25
+    expect(schedule.quote(1_000_000_000n, { ...USDC, tier: 'vip' }).fees[0].amount).toBe(2_000_000n);
+    expect(schedule.quote(1_000_000_000n, { ...USDC, volume: 200_000_000_000n }).fees[0].amount).toBe(1_000_000n);
+    expect(() => schedule.quote(1n, USDC)).toThrow(/exceed the amount/); // min 0.50 > 0.000001
+  });
+
+  it('honours each fee rounding mode', () => {
+    const s = createFeeSchedule([
+      { name: 'up', inclusion: 'onTop', mode: 'ceil', bps: 30 },
+      { name: 'down', inclusion: 'onTop', mode: 'floor', bps: 30 },
+      { name: 'even', inclusion: 'onTop', mode: 'bankers', bps: 25 },
+    ]);
+    expect(s.quote(1_001n, { decimals: 0 }).fees.map((f) => f.amount)).toEqual([4n, 3n, 3n]); // 3.003, 3.003, 2.5025
+    expect(s.quote(200n, { decimals: 0 }).fees.map((f) => f.amount)).toEqual([1n, 0n, 0n]);  // 0.6, 0.6, 0.5 → even
+  });
+
+  it('grosses up included fees to hit an exact net', () => {
+    const s = createFeeSchedule([
+      { name: 'platform', inclusion: 'included', mode: 'ceil', bps: 100, fixed: '0.30' },
+      { name: 'network', inclusion: 'onTop', mode: 'ceil', fixed: '0.05' },
+    ]);
+    const q = s.grossUp(100_000_000n, USDC); // recipient must get exactly 100 USDC
+    expect(q.net).toBe(100_000_000n);
+    expect(q.amount).toBe(101_313_132n);
+    expect(q.gross).toBe(q.net + q.totalFees);
+    expect(s.quote(q.amount - 1n, USDC).net).toBeLessThan(100_000_000n);
+
+    const flat = createFeeSchedule([{ name: 'flat', inclusion: 'included', mode: 'ceil', fixed: 100n }]);
+    expect(flat.grossUp(50n, { decimals: 2 }).amount).toBe(150n); // small amounts are "not enough", not errors
+    expect(() => flat.grossUp(50n, { decimals: -1 })).toThrow(/context.decimals/);
+  });
+
+  it('rejects invalid schedules and amounts', () => {
+    // @ts-expect-error the rounding mode is required
+    expect(() => createFeeSchedule([{ name: 'x', inclusion: 'onTop', bps: 10 }])).toThrow(/rounding mode/);
+    expect(() => createFeeSchedule([{ name: 'x', inclusion: 'onTop', mode: 'ceil', bps: 1.5 }])).toThrow(/bps/);
+    expect(() => createFeeSchedule([
+      { name: 'x', inclusion: 'onTop', mode: 'ceil' }, { name: 'x', inclusion: 'included', mode: 'ceil' },
+    ])).toThrow(/unique/);
+    const fixed = createFeeSchedule([{ name: 'flat', inclusion: 'included', mode: 'ceil', fixed: 100n }]);
+    expect(() => fixed.quote(99n, { decimals: 2 })).toThrow(/exceed the amount/);
+    expect(() => fixed.quote(-1n, { decimals: 2 })).toThrow(/>= 0/);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fiatCurrency,
+  requireFiatCurrency,
+  isFiatCurrency,
+  fiatToMinor,
+  fiatFromMinor,
+  formatFiat,
+  parseFiat,
+  cashRound,
+  roundToIncrement,
+  DEC,
+} from '../src';
+
+describe('ISO 4217 catalog', () => {
+  it('knows minor-unit exponents beyond 2', () => {
+    expect(fiatCurrency('JPY')?.exponent).toBe(0);
+    expect(fiatCurrency('kwd')?.exponent).toBe(3);
+    expect(fiatCurrency('BHD')?.exponent).toBe(3);
+    expect(fiatCurrency('CLF')?.exponent).toBe(4);
+    expect(fiatCurrency('USD')).toMatchObject({ numeric: 840, symbol: '$', name: 'US Dollar' });
+  });
+
+  it('looks up numeric codes', () => {
+    expect(fiatCurrency(392)?.code).toBe('JPY');
+    expect(fiatCurrency('986')?.code).toBe('BRL');
+    expect(fiatCurrency('XYZ')).toBeUndefined();
+    expect(() => requireFiatCurrency('XYZ')).toThrow(/unknown ISO 4217/);
+  });
+
+  it('keeps fiat codes apart from token tickers', () => {
+    expect(isFiatCurrency('USD')).toBe(true);
+    expect(isFiatCurrency('USDC')).toBe(false);
+    expect(DEC.get('USDC')).toBe(6);
+  });
+});
+
+describe('fiat helpers', () => {
+  it('converts with the currency exponent', () => {
+    expect(fiatToMinor('1500', 'JPY')).toBe(1500n);
+    expect(fiatToMinor('1.2345', 'KWD')).toBe(1235n);
+    expect(fiatToMinor('1.23456', 'CLF', { mode: 'floor' })).toBe(12345n);
+    expect(fiatFromMinor(1235n, 'KWD')).toBe('1.235');
+  });
+
+  it('rounds to cash increments', () => {
+    expect(fiatToMinor('12.33', 'CHF', { cash: true })).toBe(1235n);
+    expect(fiatToMinor('12.32', 'CHF', { cash: true })).toBe(1230n);
+    expect(cashRound(1233n, 'CHF', { mode: 'floor' })).toBe(1230n);
+    expect(cashRound(1233n, 'USD')).toBe(1233n);
+    expect(fiatToMinor('12.33', 'USD', { cash: 5n })).toBe(1235n);
+  });
+
+  it('rounds human input to the cash grid once', () => {
+    // rounding to minor units first would turn these into ties (25n, 5n) and round them up
+    expect(fiatToMinor('0.245', 'DKK', { cash: true })).toBe(0n);
+    expect(fiatToMinor('0.045', 'NZD', { cash: true })).toBe(0n);
+    expect(fiatToMinor('-0.045', 'NZD', { cash: true })).toBe(0n);
+    expect(fiatToMinor('0.25', 'DKK', { cash: true })).toBe(50n);
+    expect(fiatToMinor('0.251', 'DKK', { cash: true })).toBe(50n);
+    expect(fiatToMinor('0.045', 'NZD', { cash: true, mode: 'ceil' })).toBe(10n);
+    expect(fiatToMinor('0.0451', 'NZD', { cash: 5n })).toBe(5n);
+    expect(fiatToMinor(12.33, 'CHF', { cash: true })).toBe(1235n);
+    expect(() => fiatToMinor('1', 'CHF', { cash: 0.5 })).toThrow(/integer/);
+  });
+
+  it('formats and parses with symbols', () => {
+    expect(formatFiat(123400n, 'BRL', { locale: 'pt-BR' })).toBe('R$1.234,00');
+    expect(formatFiat(1500n, 'JPY')).toBe('¥1,500');
+    expect(formatFiat(1235n, 'KWD', { currencyPosition: 'suffix' })).toBe('1.235 KD');
+    expect(parseFiat('R$1.234,00', 'BRL', { locale: 'pt-BR' })).toBe(123400n);
+  });
+});
+
+describe('roundToIncrement', () => {
+  it('rounds to a multiple', () => {
+    expect(roundToIncrement(1237n, 5n)).toBe(1235n);
+    expect(roundToIncrement(1238n, 5)).toBe(1240n);
+    expect(roundToIncrement(-1238n, 5n, 'trunc')).toBe(-1235n);
+    expect(() => roundToIncrement(1n, 0n)).toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatMinor, parseFormattedMinor } from '../src/format';
+import { normalizeAmountInput, toMinor } from '../src/core';
+
+describe('formatMinor', () => {
+  it('formats with locale separators and trims trailing zeros', () => {
+    expect(formatMinor(-123456000n, 6)).toBe('-123.456');
+    expect(formatMinor(123456789n, 2, { locale: 'en-US' })).toBe('1,234,567.89');
+    expect(formatMinor(123456n, 2, { locale: 'pt-BR', currency: 'R$', currencySpace: true })).toBe('R$ 1.234,56');
+    expect(formatMinor(123456n, 2, { locale: 'de-DE', minFractionDigits: 2 })).toBe('1.234,56');
+    expect(formatMinor(123456n, 2, { locale: 'fr-FR' })).toBe('1\u202f234,56');
+    expect(formatMinor(1234500n, 6, { locale: { group: "'", decimal: '.' }, minFractionDigits: 2 })).toBe('1.2345');
+    expect(formatMinor(100n, 2, { minFractionDigits: 2, useGrouping: false })).toBe('1.00');
+  });
+
+  it('rounds to maxFractionDigits with the requested mode', () => {
+    expect(formatMinor(1_234_567n, 6, { maxFractionDigits: 2 })).toBe('1.23');
+    expect(formatMinor(1_235_000n, 6, { maxFractionDigits: 2, mode: 'bankers' })).toBe('1.24');
+    expect(formatMinor(-1_231_000n, 6, { maxFractionDigits: 2, mode: 'floor' })).toBe('-1.24');
+    expect(formatMinor(-1n, 6, { maxFractionDigits: 2 })).toBe('0');
+  });
+
+  it('compact notation, sign display and currency suffix', () => {
+    expect(formatMinor(123_456n, 2, { notation: 'compact' })).toBe('1.2K');
+    expect(formatMinor(3_400_000_000n, 3, { notation: 'compact' })).toBe('3.4M');
+    expect(formatMinor(999_960n, 0, { notation: 'compact' })).toBe('1M');
+    expect(formatMinor(500n, 2, { signDisplay: 'always', currency: '$' })).toBe('+$5');
+    expect(formatMinor(0n, 2, { signDisplay: 'exceptZero' })).toBe('0');
+    expect(formatMinor(-500n, 2, { signDisplay: 'accounting', currency: '$' })).toBe('($5)');
+    expect(formatMinor(1_500_000n, 6, { currency: 'USDC', currencyPosition: 'suffix' })).toBe('1.5 USDC');
+  });
+
+  it('parses formatted output back to the same minor units', () => {
+    const cases: [bigint, number, Parameters<typeof formatMinor>[2]][] = [
+      [123456789n, 2, { locale: 'en-US' }],
+      [-123456n, 2, { locale: 'pt-BR', currency: 'R$', currencySpace: true }],
+      [100000n, 2, { locale: 'en-US', currency: '$' }],
+      [987654321n, 4, { locale: 'fr-FR', signDisplay: 'accounting' }],
+      [-5n, 18, { locale: 'de-DE', currency: 'ETH', currencyPosition: 'suffix' }],
+    ];
+    for (const [minor, dec, opts] of cases) {
+      expect(parseFormattedMinor(formatMinor(minor, dec, opts), dec, opts)).toBe(minor);
+    }
+    // pt-BR output is also understood directly by normalizeAmountInput/toMinor
+    expect(toMinor(formatMinor(123456n, 2, { locale: 'pt-BR' }), 2)).toBe(123456n);
+    expect(normalizeAmountInput(formatMinor(-123456n, 2, { locale: 'de-DE' }))).toEqual({ sign: -1n, int: '1234', frac: '56' });
+    // grouped whole amounts keep a fraction digit so the group separator is not read as a decimal point
+    expect(formatMinor(123400n, 2)).toBe('1,234.0');
+    expect(formatMinor(123400n, 2, { locale: 'pt-BR' })).toBe('1.234,0');
+    expect(formatMinor(123400n, 2, { minFractionDigits: 0 })).toBe('1,234');
+    expect(formatMinor(1_234_567n, 0)).toBe('1,234,567.0');
+    for (const locale of ['en-US', 'pt-BR', 'de-DE', 'fr-FR'] as const) {
+      expect(toMinor(formatMinor(123400n, 2, { locale }), 2)).toBe(123400n);
+      expect(toMinor(formatMinor(1_234_567n, 0, { locale }), 0)).toBe(1_234_567n);
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { importUniswapTokenList, importSolanaTokenList, importCosmosAssetList, importStellarToml } from '../src/importers';
+import { createRegistry } from '../src/registry';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('asset list importers', () => {
+  it('imports a Uniswap token list keyed by chainId+address', () => {
+    const registry = createRegistry();
+    const { entries, rejected } = importUniswapTokenList(JSON.parse(fixture('uniswap-tokenlist.json')), { registry });
+    expect(entries.map((e) => `${e.chainId}:${e.symbol}:${e.decimals}`)).toEqual(['1:USDC:6', '1:WETH:18', '56:USDC:18']);
+    expect(rejected.map((r) => r.index)).toEqual([3, 4, 5]);
+    expect(rejected[0].reason).toMatch(/already registered with 6/);
+    expect(rejected[2].reason).toMatch(/decimals/);
+    expect(registry.getById({ chain: 'evm', chainId: 56, address: '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d' })).toBe(18);
+  });
+
+  it('imports a Solana token list (mint → decimals)', () => {
+    const { entries, rejected } = importSolanaTokenList(fixture('solana-tokenlist.json'));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ chain: 'solana', chainId: 101, address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 });
+    expect(rejected).toEqual([expect.objectContaining({ index: 2, reason: 'address must be a base58 mint' })]);
+  });
+
+  it('imports a Cosmos chain-registry assetlist with IBC traces', () => {
+    const { entries, rejected } = importCosmosAssetList(JSON.parse(fixture('cosmos-assetlist.json')), { chainId: 'osmosis-1' });
+    expect(entries[0]).toEqual({ chain: 'cosmos', chainId: 'osmosis-1', symbol: 'OSMO', denom: 'uosmo', decimals: 6, name: 'Osmosis', tags: ['sdk.coin'] });
+    expect(entries[1].tags).toEqual(['ibc', 'origin:cosmoshub', 'base-denom:uatom', 'ics20']);
+    expect(rejected).toEqual([expect.objectContaining({ index: 2, reason: 'display unit ION not found in denom_units' })]);
+  });
+
+  it('imports stellar.toml [[CURRENCIES]] blocks', () => {
+    const { entries, rejected } = importStellarToml(fixture('stellar.toml'));
+    expect(entries).toEqual([{
+      chain: 'stellar', symbol: 'USDC', issuer: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+      address: 'CCW67TSZV3SSS2HXMBQ5JFGCKJNXKZM7UQUWUZPUTHXSTZLEO7SJMI75', decimals: 7, name: 'USD Coin',
+      displayDecimals: 2, tags: ['classic', 'anchored', 'status:live'],
+    }]);
+    expect(rejected.map((r) => r.reason)).toEqual([
+      'contract-only currency: decimals must be fetched on-chain (pass contractDecimals)',
+      'code must be 1-12 alphanumeric characters',
+    ]);
+    expect(importStellarToml(fixture('stellar.toml'), { contractDecimals: 7 }).entries).toHaveLength(2);
+  });
+});
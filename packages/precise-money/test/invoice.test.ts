@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createInvoiceCalculator, type InvoiceBreakdown } from '../src';
+
+const balanced = (b: InvoiceBreakdown) => {
+  for (const k of ['gross', 'lineDiscount', 'invoiceDiscount', 'net', 'tax', 'total'] as const)
+    expect(b.lines.reduce((a, l) => a + l[k], 0n)).toBe(b[k]);
+  expect(b.total).toBe(b.net + b.tax);
+  expect(b.gross - b.discount).toBe(b.taxInclusive ? b.total : b.net);
+};
+
+describe('createInvoiceCalculator', () => {
+  const lines = [1, 2, 3].map(() => ({ quantity: 1, unitPrice: '0.10' }));
+
+  it('rounds taxes per line or once per invoice', () => {
+    const perLine = createInvoiceCalculator({ currency: 'BRL', taxes: [{ name: 'ISS', percent: 5 }] }).calculate(lines);
+    expect(perLine.lines.map((l) => l.tax)).toEqual([1n, 1n, 1n]); // 0.5 each, rounded up
+    expect(perLine.tax).toBe(3n);
+    expect(perLine.total).toBe(33n);
+    balanced(perLine);
+
+    const perTotal = createInvoiceCalculator({ currency: 'BRL', rounding: 'perTotal', taxes: [{ name: 'ISS', percent: 5 }] }).calculate(lines);
+    expect(perTotal.tax).toBe(2n); // round(1.5)
+    expect(perTotal.lines.map((l) => l.tax)).toEqual([1n, 1n, 0n]);
+    expect(perTotal.taxes).toEqual([{ name: 'ISS', percent: '5', base: 30n, amount: 2n }]);
+    balanced(perTotal);
+  });
+
+  it('applies line discounts and splits the invoice discount so it reconciles', () => {
+    const inv = createInvoiceCalculator({ currency: 'BRL', taxes: [{ name: 'ICMS', percent: '18' }] });
+    const b = inv.calculate(
+      [
+        { description: 'a', quantity: 1, unitPrice: '10.00' },
+        { description: 'b', quantity: 2, unitPrice: 1_000n },
+        { description: 'c', quantity: 1, unitPrice: '3.70', discount: { amount: '0.37' } },
+      ],
+      { discount: { amount: '1.00' } }
+    );
+    expect(b.lines.map((l) => l.lineDiscount)).toEqual([0n, 0n, 37n]);
+    expect(b.lines.map((l) => l.invoiceDiscount)).toEqual([30n, 60n, 10n]);
+    expect(b.net).toBe(3_233n);
+    expect(b.lines.map((l) => l.tax)).toEqual([175n, 349n, 58n]);
+    expect(b.total).toBe(3_233n + 582n);
+    balanced(b);
+
+    const pct = inv.calculate([{ quantity: 3, unitPrice: '9.99' }], { discount: { percent: '12.5' } });
+    expect(pct.invoiceDiscount).toBe(375n); // 12.5% of 29.97 = 3.74625
+    balanced(pct);
+  });
+
+  it('backs taxes out of inclusive prices across several rates', () => {
+    const inv = createInvoiceCalculator({
+      currency: 'BRL',
+      taxInclusive: true,
+      taxes: [{ name: 'A', percent: 10 }, { name: 'B', percent: 5 }],
+    });
+    const b = inv.calculate([{ quantity: 1, unitPrice: '10.00' }, { quantity: 1, unitPrice: '5.00', taxes: ['B'] }]);
+    expect(b.lines[0]).toMatchObject({ gross: 1_000n, net: 870n, tax: 130n, total: 1_000n });
+    expect(b.lines[0].taxes).toEqual([{ name: 'A', amount: 87n }, { name: 'B', amount: 43n }]);
+    expect(b.lines[1]).toMatchObject({ net: 476n, tax: 24n });
+    expect(b.taxes).toEqual([
+      { name: 'A', percent: '10', base: 870n, amount: 87n },
+      { name: 'B', percent: '5', base: 1_346n, amount: 67n },
+    ]);
+    expect(b.total).toBe(1_500n);
+    balanced(b);
+
+    const perTotal = createInvoiceCalculator({ ...inv.options, rounding: 'perTotal' }).calculate([
+      { quantity: 1, unitPrice: '10.00' },
+      { quantity: 1, unitPrice: '5.00', taxes: ['B'] },
+    ]);
+    expect(perTotal.total).toBe(1_500n);
+    expect(perTotal.taxes.map((t) => t.amount)).toEqual([87n, 67n]); // 86.96, 43.48 + 23.81
+    balanced(perTotal);
+  });
+
+  it('handles fractional quantities, sub-cent prices and exempt lines', () => {
+    const b = createInvoiceCalculator({ decimals: 2, taxes: [{ name: 'VAT', percent: '20' }] }).calculate([
+      { quantity: '2.5', unitPrice: '0.125' },
+      { quantity: 4, unitPrice: '1.00', taxes: [] },
+    ]);
+    expect(b.lines.map((l) => l.gross)).toEqual([31n, 400n]); // 0.3125 → 0.31
+    expect(b.lines.map((l) => l.tax)).toEqual([6n, 0n]);
+    expect(b.taxes).toEqual([{ name: 'VAT', percent: '20', base: 31n, amount: 6n }]);
+    balanced(b);
+  });
+
+  it('validates its input', () => {
+    expect(() => createInvoiceCalculator({})).toThrow(/currency or non-negative integer decimals/);
+    expect(() => createInvoiceCalculator({ currency: 'JPY', decimals: 2 })).toThrow(/JPY has 0 decimals/);
+    expect(() => createInvoiceCalculator({ decimals: 2, taxes: [{ name: 'X', percent: 101 }] })).toThrow(/between 0 and 100/);
+    const inv = createInvoiceCalculator({ currency: 'USD', taxes: [{ name: 'ST', percent: '8.875' }] });
+    expect(() => inv.calculate([])).toThrow(/must not be empty/);
+    expect(() => inv.calculate([{ quantity: 1, unitPrice: '1', taxes: ['VAT'] }])).toThrow(/unknown tax VAT/);
+    expect(() => inv.calculate([{ quantity: 1, unitPrice: '1' }], { discount: { amount: '2' } })).toThrow(/exceeds/);
+    expect(() => inv.calculate([{ quantity: -1, unitPrice: '1' }])).toThrow(/quantity/);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { FillLedger } from '../src/ledger';
+import { parsePriceRatio } from '../src/price';
+
+// ETH (18) bought/sold for USDC (6)
+const ETH = 10n ** 18n;
+const usdc = (x: number) => BigInt(x) * 1_000_000n;
+
+function ledger(method?: 'fifo' | 'lifo' | 'average') {
+  return new FillLedger({ baseDecimals: 18, quoteDecimals: 6, method }).recordMany([
+    { side: 'buy', qty: ETH, quote: usdc(1000), fee: usdc(1) },
+    { side: 'buy', qty: 2n * ETH, quote: usdc(3000), fee: usdc(2) },
+    { side: 'sell', qty: ETH + ETH / 2n, quote: usdc(2700), fee: usdc(3) },
+  ]);
+}
+
+describe('FillLedger', () => {
+  it('tracks VWAP per side', () => {
+    const l = ledger();
+    expect(l.vwap('buy')).toEqual({ num: usdc(4000) * ETH, den: 3n * ETH * 1_000_000n });
+    expect(l.summary({ scale: 4 })).toMatchObject({ vwapBuy: '1333.3333', vwapSell: '1800.0000', position: '1.500000000000000000' });
+    expect(new FillLedger({ baseDecimals: 18, quoteDecimals: 6 }).vwap()).toBeUndefined();
+  });
+
+  it('computes cost basis and realized PnL under FIFO, LIFO and average cost', () => {
+    // FIFO: sells lot1 (1001) + a quarter of lot2 (750.5) = 1751.5 → realized 2697 − 1751.5 = 945.5
+    expect(ledger('fifo').report()).toMatchObject({ position: ETH + ETH / 2n, costBasis: 2_251_500_000n, realizedPnl: 945_500_000n, fees: usdc(6) });
+    // LIFO: 1.5 of lot2 = 2251.5 → realized 445.5
+    const lifo = ledger('lifo');
+    expect(lifo.costBasis()).toBe(usdc(1001) + 750_500_000n);
+    expect(lifo.realizedPnl()).toBe(445_500_000n);
+    // average: 4003 / 3 per ETH → 1.5 ETH costs 2001.5
+    const avg = ledger('average');
+    expect(avg.costBasis()).toBe(2_001_500_000n);
+    expect(avg.realizedPnl()).toBe(695_500_000n);
+    // any method: open cost − realized = total cost − net proceeds
+    for (const m of ['fifo', 'lifo', 'average'] as const) {
+      const r = ledger().report(m);
+      expect(r.costBasis - r.realizedPnl).toBe(usdc(4003) - usdc(2697));
+    }
+  });
+
+  it('marks the open position to market', () => {
+    const l = ledger('fifo');
+    expect(l.unrealizedPnl(parsePriceRatio('2000'))).toBe(usdc(3000) - 2_251_500_000n);
+    expect(l.summary({ mark: parsePriceRatio('2000'), scale: 2 })).toMatchObject({
+      method: 'fifo', costBasis: '2251.500000', realizedPnl: '945.500000', unrealizedPnl: '748.500000', averageCost: '1501.00',
+    });
+    expect(l.unrealizedPnl(parsePriceRatio('2000'), 'lifo')).toBe(usdc(3000) - 1_751_500_000n);
+  });
+
+  it('rejects oversells and invalid fills', () => {
+    const l = ledger();
+    expect(() => l.record({ side: 'sell', qty: 2n * ETH, quote: 1n })).toThrow(/exceeds the open position/);
+    expect(l.fills()).toHaveLength(3);
+    expect(() => l.record({ side: 'buy', qty: 0n, quote: 1n })).toThrow(/qty/);
+    // @ts-expect-error not a CostMethod
+    expect(() => l.report('hifo')).toThrow(/unknown cost method/);
+  });
+});
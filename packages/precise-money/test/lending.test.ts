@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WAD, RAY, HALF_RAY, SECONDS_PER_YEAR, wadMul, wadDiv, rayMul, rayDiv, rayToWad, wadToRay, rayPow, parseRay, parseWad,
+  wadToUnits, rayToUnits, unitsToWad, linearInterest, compoundedInterest, aprToApy, apyToApr, accrueIndex, accrueBalance,
+  toScaledBalance, fromScaledBalance,
+} from '../src/lending';
+
+const asFloat = (ray: bigint) => Number(ray) / 1e27;
+
+describe('WadRayMath', () => {
+  it('rounds half up like the Solidity library', () => {
+    expect(wadMul(1n, WAD / 2n)).toBe(1n);           // 0.5 → 1
+    expect(wadMul(1n, WAD / 2n - 1n)).toBe(0n);
+    expect(wadDiv(1n, 3n)).toBe(333_333_333_333_333_333n);
+    expect(wadDiv(2n, 3n)).toBe(666_666_666_666_666_667n);
+    expect(rayMul(3n, HALF_RAY)).toBe(2n);           // 1.5 → 2
+    expect(rayDiv(RAY, 3n * RAY)).toBe(333_333_333_333_333_333_333_333_333n);
+    expect(rayToWad(1_500_000_000n)).toBe(2n);
+    expect(rayToWad(1_499_999_999n)).toBe(1n);
+    expect(wadToRay(WAD)).toBe(RAY);
+    expect(() => rayMul(-1n, RAY)).toThrow(/uint256/);
+    expect(() => rayDiv(1n, 0n)).toThrow(/division by zero/);
+    expect(() => rayMul(1n << 200n, 1n << 60n)).toThrow(/overflow/);
+  });
+
+  it('raises to integer powers and parses decimals', () => {
+    expect(rayPow(2n * RAY, 10)).toBe(1024n * RAY);
+    expect(rayPow(RAY / 2n, 0)).toBe(RAY);
+    expect(parseRay('0.05')).toBe(5n * 10n ** 25n);
+    expect(parseWad('1.5')).toBe(15n * 10n ** 17n);
+    expect(wadToUnits(parseWad('1.2345675'), 6)).toBe(1_234_568n);
+    expect(wadToUnits(parseWad('1.2345675'), 6, 'floor')).toBe(1_234_567n);
+    expect(rayToUnits(parseRay('2.5'), 0, 'bankers')).toBe(2n);
+    expect(unitsToWad(1_000_000n, 6)).toBe(WAD);
+  });
+});
+
+describe('interest accrual', () => {
+  const rate = parseRay('0.05'); // 5% APR
+
+  it('accrues linear and compounded interest over seconds', () => {
+    expect(linearInterest(rate, SECONDS_PER_YEAR)).toBe(RAY + rate);
+    expect(linearInterest(rate, 0)).toBe(RAY);
+    expect(compoundedInterest(rate, 0)).toBe(RAY);
+    expect(compoundedInterest(rate, 1)).toBe(RAY + rate / SECONDS_PER_YEAR);
+    const year = compoundedInterest(rate, SECONDS_PER_YEAR);
+    // third-order approximation; basePowerThree is floored to an integer, as on chain
+    expect(Math.abs(asFloat(year) - Math.exp(0.05))).toBeLessThan(1e-5);
+    expect(year).toBeLessThan(parseRay(Math.exp(0.05).toFixed(12)));
+    expect(() => linearInterest(rate, -1)).toThrow(/seconds/);
+  });
+
+  it('converts APR to APY and back', () => {
+    const apy = aprToApy(rate);
+    expect(Math.abs(asFloat(apy) - (Math.exp(0.05) - 1))).toBeLessThan(1e-8);
+    expect(aprToApy(rate, 12)).toBe(rayPow(RAY + rate / 12n, 12) - RAY);
+    const apr = apyToApr(apy);
+    expect(apr - rate < SECONDS_PER_YEAR * 2n && rate - apr < SECONDS_PER_YEAR * 2n).toBe(true);
+    expect(asFloat(apyToApr(parseRay('0.126825030131969720661201'), 12))).toBeCloseTo(0.12, 15);
+  });
+
+  it('converts between scaled and actual balances with a liquidity index', () => {
+    const index = parseRay('1.0234567890123456789');
+    const deposit = 1_000_000_000n; // 1,000 USDC
+    const scaled = toScaledBalance(deposit, index);
+    expect(fromScaledBalance(scaled, index)).toBe(deposit);
+    const later = accrueIndex(index, rate, 30 * 86_400);
+    expect(fromScaledBalance(scaled, later)).toBeGreaterThan(deposit);
+    expect(accrueBalance(deposit, rate, SECONDS_PER_YEAR, 'linear')).toBe(1_050_000_000n);
+    expect(accrueBalance(deposit, rate, SECONDS_PER_YEAR)).toBe(rayMul(deposit, compoundedInterest(rate, SECONDS_PER_YEAR)));
+  });
+});
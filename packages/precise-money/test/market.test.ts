@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createMarketRules, MarketRuleError } from '../src';
+
+// ETH/USDC-like market: 0.01 tick, 0.0001 ETH step, 10 USDC min notional
+const rules = createMarketRules({
+  baseDecimals: 18,
+  quoteDecimals: 6,
+  tickSize: '0.01',
+  stepSize: '0.0001',
+  minQty: '0.001',
+  maxQty: '100',
+  minNotional: '10',
+});
+const ETH = 10n ** 18n;
+
+describe('quantization', () => {
+  it('rounds prices toward the safe side per order side', () => {
+    expect(rules.formatPrice(rules.quantizePrice('2000.019', 'buy'))).toBe('2000.01');
+    expect(rules.formatPrice(rules.quantizePrice('2000.011', 'sell'))).toBe('2000.02');
+    expect(rules.formatPrice(rules.quantizePrice('2000.015', 'buy', 'round'))).toBe('2000.02');
+  });
+
+  it('rounds quantities to the step, once', () => {
+    expect(rules.quantizeQty('1.23456', 'buy')).toBe(12345n * 10n ** 14n);
+    expect(rules.quantizeQty('1.23456', 'sell', 'ceil')).toBe(12346n * 10n ** 14n);
+    expect(rules.quantizeQty(ETH + 1n, 'buy')).toBe(ETH);
+  });
+
+  it('builds a submit-ready order', () => {
+    const q = rules.quantize({ side: 'buy', price: '1999.999', qty: '0.50009' });
+    expect(q).toMatchObject({ priceText: '1999.99', qtyText: '0.500000000000000000', notional: 999_995_000n });
+  });
+
+  it('rejects filters finer than the asset decimals', () => {
+    expect(() => createMarketRules({ baseDecimals: 2, quoteDecimals: 2, tickSize: '0.01', stepSize: '0.001' })).toThrow(/stepSize/);
+  });
+});
+
+describe('validate', () => {
+  it('passes a compliant order', () => {
+    expect(rules.validate({ side: 'sell', price: '2000.01', qty: '0.01' })).toEqual({ ok: true, violations: [] });
+  });
+
+  it('reports every failing filter', () => {
+    const r = rules.validate({ side: 'buy', price: '2000.001', qty: '0.00015' });
+    expect(r.ok).toBe(false);
+    expect(r.violations.map((v) => v.code)).toEqual(['PRICE_TICK', 'QTY_STEP', 'QTY_TOO_LOW', 'NOTIONAL_TOO_LOW']);
+    expect(r.violations[3]).toMatchObject({ limit: '10.000000', actual: '0.300000' });
+  });
+
+  it('checks min notional exactly', () => {
+    expect(rules.validate({ side: 'buy', price: '1000', qty: '0.01' }).ok).toBe(true);
+    expect(rules.validate({ side: 'buy', price: '999.99', qty: '0.01' }).violations[0].code).toBe('NOTIONAL_TOO_LOW');
+    expect(() => rules.assertValid({ side: 'buy', price: '999.99', qty: '0.01' })).toThrow(MarketRuleError);
+  });
+});
+
+describe('split', () => {
+  it('splits evenly under maxQty and keeps the dust', () => {
+    const { orders, remainder } = rules.split({ side: 'sell', price: '2000', qty: 250n * ETH + 5n });
+    expect(orders.map((o) => o.qtyText)).toEqual(['83.333400000000000000', '83.333300000000000000', '83.333300000000000000']);
+    expect(orders.reduce((a, o) => a + o.qty, 0n)).toBe(250n * ETH);
+    expect(remainder).toBe(5n);
+    for (const o of orders) expect(rules.validate(o).ok).toBe(true);
+  });
+
+  it('avoids a below-minimum tail child', () => {
+    // 1.006 ETH in children of at most 1 ETH: [1, 0.006] would violate min notional at 1000
+    const { orders } = rules.split({ side: 'buy', price: '1000', qty: '1.006' }, '1');
+    expect(orders.map((o) => o.qty)).toEqual([503n * 10n ** 15n, 503n * 10n ** 15n]);
+  });
+
+  it('throws with violations when no compliant split exists', () => {
+    try {
+      rules.split({ side: 'buy', price: '1000', qty: '0.02' }, '0.009');
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(MarketRuleError);
+      expect((e as MarketRuleError).violations.map((v) => v.code)).toContain('NOTIONAL_TOO_LOW');
+    }
+  });
+});
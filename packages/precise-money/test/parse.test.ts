@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseAmountStrict, toMinorStrict, safeToMinor, AmountParseError } from '../src/parse';
+import { toMinor, normalizeAmountInput } from '../src/core';
+
+function codeOf(fn: () => unknown): string | undefined {
+  try { fn(); } catch (e) { return e instanceof AmountParseError ? e.code : 'OTHER'; }
+  return undefined;
+}
+
+describe('strict amount parsing', () => {
+  it('honours the declared locale', () => {
+    expect(toMinorStrict('1,234', 2, { locale: 'en-US' })).toBe(123400n);
+    expect(toMinorStrict('1,234', 3, { locale: 'pt-BR' })).toBe(1234n);
+    expect(toMinorStrict('1.234.567,89', 2, { locale: 'de-DE' })).toBe(123456789n);
+    expect(toMinorStrict('1 234,5', 2, { locale: 'fr-FR' })).toBe(123450n);
+    expect(codeOf(() => parseAmountStrict('1,23', { locale: 'en-US' }))).toBe('INVALID_GROUPING');
+    expect(codeOf(() => parseAmountStrict('1.234,56', { locale: 'en-US' }))).toBe('INVALID_GROUPING');
+    expect(codeOf(() => parseAmountStrict('1.2.3', { locale: 'en-US' }))).toBe('MULTIPLE_DECIMAL_SEPARATORS');
+    expect(codeOf(() => parseAmountStrict('1,2,3', { locale: 'pt-BR' }))).toBe('MULTIPLE_DECIMAL_SEPARATORS');
+  });
+
+  it('rejects ambiguous input instead of guessing when no locale is declared', () => {
+    expect(codeOf(() => parseAmountStrict('1,234'))).toBe('AMBIGUOUS_SEPARATOR');
+    expect(codeOf(() => parseAmountStrict('1.234'))).toBe('AMBIGUOUS_SEPARATOR');
+    expect(parseAmountStrict('0,234')).toEqual({ sign: 1n, int: '0', frac: '234' });
+    expect(parseAmountStrict('1,234.5')).toEqual({ sign: 1n, int: '1234', frac: '5' });
+    expect(parseAmountStrict('1.234.567')).toEqual({ sign: 1n, int: '1234567', frac: '' });
+  });
+
+  it('accepts exponent strings and rejects unsafe numbers', () => {
+    expect(toMinorStrict('1.5e-7', 8)).toBe(15n);
+    expect(toMinorStrict('-2E3', 0)).toBe(-2000n);
+    expect(toMinor('1e21', 18)).toBe(10n ** 39n);
+    expect(toMinor(1e-7, 9)).toBe(100n);
+    expect(codeOf(() => parseAmountStrict(NaN))).toBe('NOT_FINITE');
+    expect(codeOf(() => parseAmountStrict(Infinity))).toBe('NOT_FINITE');
+    expect(codeOf(() => parseAmountStrict(1e21))).toBe('UNSAFE_NUMBER');
+    expect(() => toMinor(1e21, 18)).toThrow(/MAX_SAFE_INTEGER/);
+    expect(codeOf(() => parseAmountStrict('1e'))).toBe('INVALID_EXPONENT');
+    expect(codeOf(() => parseAmountStrict('1e5', { allowExponent: false }))).toBe('INVALID_EXPONENT');
+    expect(normalizeAmountInput('1.25e2')).toEqual({ sign: 1n, int: '125', frac: '' });
+  });
+
+  it('returns structured error codes for form validation', () => {
+    expect(safeToMinor('12.3456', 2)).toMatchObject({ ok: false, error: { code: 'TOO_MANY_DECIMALS' } });
+    expect(safeToMinor('12.345', 2, { locale: 'en-US', mode: 'floor' })).toEqual({ ok: true, value: 1234n });
+    expect(safeToMinor('-1', 2, { allowNegative: false })).toMatchObject({ ok: false, error: { code: 'NEGATIVE_NOT_ALLOWED' } });
+    expect(safeToMinor('  ', 2)).toMatchObject({ ok: false, error: { code: 'EMPTY' } });
+    expect(safeToMinor('12a', 2)).toMatchObject({ ok: false, error: { code: 'INVALID_CHARACTER' } });
+    expect(safeToMinor('1-2', 2)).toMatchObject({ ok: false, error: { code: 'MISPLACED_SIGN' } });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parsePriceRatio, priceRatio, reducePrice, invertPrice, composePrice, comparePrice, priceEquals, convertThrough } from '../src/price';
+import { convertUnitsByDecimals, priceRatioDecimals, divToDecimalString } from '../src/core';
+
+describe('price ratios', () => {
+  it('parses decimal strings exactly', () => {
+    expect(parsePriceRatio('157.725')).toEqual({ num: 6309n, den: 40n });
+    expect(parsePriceRatio('0.000000012345678901')).toEqual({ num: 12345678901n, den: 10n ** 18n });
+    expect(parsePriceRatio('1.5e-3')).toEqual({ num: 3n, den: 2000n });
+    expect(parsePriceRatio('0')).toEqual({ num: 0n, den: 1n });
+    expect(() => parsePriceRatio('-1')).toThrow(/negative/);
+    // priceRatioDecimals keeps truncating for back-compat
+    expect(priceEquals(priceRatioDecimals(2, '157.725'), parsePriceRatio('157.72'))).toBe(true);
+  });
+
+  it('reduces, inverts and compares', () => {
+    expect(reducePrice({ num: 15772n, den: 100n })).toEqual({ num: 3943n, den: 25n });
+    expect(priceRatio(10n, 4n)).toEqual({ num: 5n, den: 2n });
+    expect(invertPrice(parsePriceRatio('5'))).toEqual({ num: 1n, den: 5n });
+    expect(() => invertPrice({ num: 0n, den: 1n })).toThrow(/zero/);
+    expect(() => reducePrice({ num: 1n, den: 0n })).toThrow(/denominator/);
+    expect(comparePrice(parsePriceRatio('0.1'), { num: 1n, den: 10n })).toBe(0);
+    expect(comparePrice(parsePriceRatio('0.3333'), { num: 1n, den: 3n })).toBe(-1);
+    expect(comparePrice({ num: 2n, den: 3n }, parsePriceRatio('0.6666'))).toBe(1);
+  });
+
+  it('composes cross rates without losing precision', () => {
+    const usdcPerBrl = parsePriceRatio('0.1834');  // 1 BRL = 0.1834 USDC
+    const xlmPerUsdc = invertPrice(parsePriceRatio('0.3127')); // 1 XLM = 0.3127 USDC
+    const xlmPerBrl = composePrice(usdcPerBrl, xlmPerUsdc);
+    expect(xlmPerBrl).toEqual({ num: 1834n, den: 3127n });
+    expect(divToDecimalString(xlmPerBrl.num, xlmPerBrl.den, 7)).toBe('0.5865046');
+    expect(priceEquals(composePrice(xlmPerBrl, invertPrice(xlmPerBrl)), { num: 1n, den: 1n })).toBe(true);
+  });
+
+  it('converts through a route with a single final rounding', () => {
+    const usdcPerBrl = parsePriceRatio('0.1834');
+    const xlmPerUsdc = invertPrice(parsePriceRatio('0.3127'));
+    // 100.00 BRL → XLM (7): 100 * 1834 / 3127 = 58.65046370...
+    expect(convertThrough(10_000n, 2, 7, [usdcPerBrl, xlmPerUsdc])).toBe(586_504_637n);
+    // 123.45 BRL: rounding at an intermediate 2-decimal hop (22.64073 → 22.64) drifts by ~0.0023 XLM
+    expect(convertThrough(12_345n, 2, 7, [usdcPerBrl, xlmPerUsdc])).toBe(724_039_974n);
+    const usd = convertUnitsByDecimals(12_345n, 2, 2, usdcPerBrl);
+    expect(convertUnitsByDecimals(usd, 2, 7, xlmPerUsdc)).toBe(724_016_629n);
+    expect(convertThrough(1n, 2, 7, [usdcPerBrl, xlmPerUsdc], 'floor')).toBe(58_650n);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Rational, gcd, convertUnitsByDecimals, reducePrice } from '../src';
+
+describe('Rational', () => {
+  it('normalizes sign and common factors', () => {
+    const r = Rational.of(4n, -6n);
+    expect([r.num, r.den]).toEqual([-2n, 3n]);
+    expect(Rational.of('1.25').toString()).toBe('5/4');
+    expect(Rational.of({ num: 10n, den: 4n }).equals('5/2')).toBe(true);
+    expect(Rational.of(0.1).toString()).toBe('1/10');
+    expect(() => Rational.of(1n, 0n)).toThrow(/division by zero/);
+    expect([gcd(-12n, 18n), gcd(0n, 5n), gcd(0n, 0n)]).toEqual([6n, 5n, 0n]);
+    expect(reducePrice({ num: 0n, den: 7n })).toEqual({ num: 0n, den: 1n });
+  });
+
+  it('does exact arithmetic', () => {
+    const third = Rational.of(1n, 3n);
+    expect(third.add(third).add(third).equals(Rational.ONE)).toBe(true);
+    expect(Rational.of('0.1').add('0.2').equals('0.3')).toBe(true);
+    expect(third.sub('1/2').toString()).toBe('-1/6');
+    expect(third.mul(6n).toString()).toBe('2');
+    expect(third.div('2/3').toString()).toBe('1/2');
+    expect(Rational.of('2/3').pow(-2).toString()).toBe('9/4');
+    expect(() => third.div(0n)).toThrow(/division by zero/);
+  });
+
+  it('compares', () => {
+    expect(Rational.of('2/3').compare('0.666')).toBe(1);
+    expect(Rational.of('-1/2').lt(Rational.ZERO)).toBe(true);
+    expect(Rational.of('7/7').isInteger()).toBe(true);
+  });
+
+  it('prints with a scale and rounding mode', () => {
+    const r = Rational.of(2n, 3n);
+    expect(r.toDecimalString(2)).toBe('0.66');
+    expect(r.toDecimalString(2, 'round')).toBe('0.67');
+    expect(r.negate().toDecimalString({ scale: 2, mode: 'ceil' })).toBe('-0.66');
+    expect(Rational.of('5/2').toDecimalString(0, 'bankers')).toBe('2');
+    expect(Rational.of('1/8').toDecimalString()).toBe('0.125');
+    expect(r.toDecimalString()).toBe('0.666666666666666666');
+  });
+
+  it('prints significant digits', () => {
+    expect(Rational.of('1234.5678').toDecimalString({ significant: 3 })).toBe('1230');
+    expect(Rational.of('1234.5678').toDecimalString({ significant: 6, mode: 'round' })).toBe('1234.57');
+    expect(Rational.of('0.00012345').toDecimalString({ significant: 2, mode: 'round' })).toBe('0.00012');
+    expect(Rational.of('9.99').toDecimalString({ significant: 2, mode: 'round' })).toBe('10');
+    expect(Rational.of('-2/3').toDecimalString({ significant: 3, mode: 'round' })).toBe('-0.667');
+  });
+
+  it('detects repeating decimals and parses them back', () => {
+    expect(Rational.of(1n, 3n).toDecimalString({ repeating: true })).toBe('0.(3)');
+    expect(Rational.of(7n, 6n).toDecimalString({ repeating: true })).toBe('1.1(6)');
+    expect(Rational.of(-1n, 7n).toDecimalString({ repeating: true })).toBe('-0.(142857)');
+    expect(Rational.of('3/4').toDecimalString({ repeating: true })).toBe('0.75');
+    expect(Rational.of(1n, 3n).isTerminating()).toBe(false);
+    expect(Rational.parse('1.1(6)').toString()).toBe('7/6');
+    expect(Rational.parse('-0.(142857)').toString()).toBe('-1/7');
+  });
+
+  it('is a { num, den } ratio for core conversions', () => {
+    const usdcPerBrl = Rational.of('0.18');
+    expect(convertUnitsByDecimals(10_000n, 2, 6, usdcPerBrl)).toBe(18_000_000n);
+    expect(Rational.of('2/3').toBigInt('round')).toBe(1n);
+    expect(JSON.stringify({ r: Rational.of('2/3') })).toBe('{"r":"2/3"}');
+  });
+});
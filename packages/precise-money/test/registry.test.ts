@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createRegistry, DEC, AssetConflictError } from '../src/registry';
+
+const USDC_ETH = { chain: 'evm', chainId: 1, symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 } as const;
+const USDC_BSC = { chain: 'evm', chainId: 56, symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 } as const;
+
+describe('AssetRegistry', () => {
+  it('creates isolated instances', () => {
+    const a = createRegistry();
+    const b = createRegistry();
+    a.set('FOO', 4);
+    expect(a.get('foo')).toBe(4);
+    expect(b.get('FOO')).toBeUndefined();
+    expect(DEC.get('FOO')).toBeUndefined();
+    expect(DEC.get('BRL')).toBe(2);
+  });
+
+  it('resolves with id → chain+symbol → symbol precedence and never guesses', () => {
+    const r = createRegistry({ assets: [USDC_ETH, USDC_BSC] });
+    expect(r.lookup({ chain: 'evm', chainId: 56, address: USDC_BSC.address.toLowerCase() })).toMatchObject({ decimals: 18, source: 'id' });
+    expect(r.lookup({ chain: 'evm', chainId: 1, symbol: 'usdc' })).toMatchObject({ decimals: 6, source: 'chain+symbol' });
+    expect(r.lookup({ chain: 'evm', symbol: 'USDC' })).toBeUndefined(); // 6 vs 18 on EVM: ambiguous
+    expect(r.lookup({ symbol: 'USDC' })).toBeUndefined();
+    r.set('USDC', 6);
+    expect(r.lookup({ symbol: 'USDC' })).toEqual({ decimals: 6, source: 'symbol' });
+    expect(r.lookup({ chain: 'solana', symbol: 'USDC' })).toEqual({ decimals: 6, source: 'symbol' });
+  });
+
+  it('rejects or warns on conflicting registrations', () => {
+    const strict = createRegistry({ assets: [USDC_ETH] });
+    expect(() => strict.register({ ...USDC_ETH, decimals: 18 })).toThrow(AssetConflictError);
+    strict.register({ ...USDC_ETH, name: 'USD Coin' }); // same decimals → metadata update
+    expect(strict.entry(USDC_ETH)?.name).toBe('USD Coin');
+
+    const warnings: string[] = [];
+    const lenient = createRegistry({ onConflict: 'warn', warn: (m) => warnings.push(m), assets: [USDC_ETH] });
+    lenient.register({ ...USDC_ETH, decimals: 18 });
+    expect(lenient.getById(USDC_ETH)).toBe(6);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('matches across chainIds only when unambiguous and serializes to JSON', () => {
+    const r = createRegistry({ symbols: { BRL: 2 } });
+    r.register({ chain: 'stellar', symbol: 'USDC', issuer: 'GA5Z', decimals: 7, tags: ['stablecoin'] });
+    r.register({ chain: 'cosmos', chainId: 'cosmoshub-4', symbol: 'ATOM', denom: 'uatom', decimals: 6 });
+    expect(r.getById({ chain: 'cosmos', denom: 'uatom' })).toBe(6);
+    expect(r.getById({ chain: 'stellar', symbol: 'usdc', issuer: 'GA5Z' })).toBe(7);
+
+    const copy = createRegistry();
+    copy.load(JSON.stringify(r));
+    expect(copy.toJSON()).toEqual(r.toJSON());
+    expect(copy.entries()).toHaveLength(2);
+    expect(copy.delete({ chain: 'stellar', symbol: 'USDC', issuer: 'GA5Z' })).toBe(true);
+    expect(copy.entries()).toHaveLength(1);
+  });
+});
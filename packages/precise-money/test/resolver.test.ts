@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { createDecimalsResolver, classifyDecimalsErrorByMessage } from '../src/resolver';
+import { createRegistry, DecimalsNotFoundError, DecimalsTransportError } from '../src/registry';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as const;
+
+function evmClient(decimals: Record<string, number | Error>) {
+  const calls: string[] = [];
+  return {
+    calls,
+    readContract: async ({ address }: { address: string }) => {
+      calls.push(address);
+      await Promise.resolve();
+      const d = decimals[address];
+      if (d instanceof Error) throw d;
+      if (d === undefined) throw new Error('execution reverted');
+      return d;
+    },
+  };
+}
+
+describe('DecimalsResolver', () => {
+  it('caches chain answers and collapses concurrent lookups', async () => {
+    const evm = evmClient({ [USDC]: 6 });
+    const resolver = createDecimalsResolver({ clients: { evm }, registry: createRegistry() });
+    const q = { chain: 'evm' as const, chainId: 1, address: USDC };
+    const [a, b] = await Promise.all([resolver.resolve(q), resolver.resolve(q)]);
+    expect(a).toEqual({ decimals: 6, source: 'chain', cached: false });
+    expect(b).toBe(a);
+    expect(await resolver.resolve(q)).toEqual({ decimals: 6, source: 'chain', cached: true });
+    expect(evm.calls).toHaveLength(1);
+    resolver.invalidate(q);
+    await resolver.resolve(q);
+    expect(evm.calls).toHaveLength(2);
+  });
+
+  it('expires cache entries after ttlMs', async () => {
+    let t = 0;
+    const evm = evmClient({ [USDC]: 6 });
+    const resolver = createDecimalsResolver({ clients: { evm }, registry: createRegistry(), ttlMs: 1000, now: () => t });
+    const q = { chain: 'evm' as const, address: USDC };
+    await resolver.resolve(q);
+    t = 999;
+    expect((await resolver.resolve(q)).cached).toBe(true);
+    t = 1000;
+    expect((await resolver.resolve(q)).cached).toBe(false);
+    expect(evm.calls).toHaveLength(2);
+  });
+
+  it('falls back on "not found" but surfaces transport errors', async () => {
+    const evm = evmClient({ [USDC]: new Error('fetch failed: ECONNRESET') });
+    const registry = createRegistry({ symbols: { USDC: 6 } });
+    const q = { chain: 'evm' as const, symbol: 'USDC', address: USDC };
+
+    await expect(createDecimalsResolver({ clients: { evm }, registry }).resolve(q)).rejects.toBeInstanceOf(DecimalsTransportError);
+    const degraded = await createDecimalsResolver({ clients: { evm }, registry, onTransportError: 'registry' }).resolve(q);
+    expect(degraded).toMatchObject({ decimals: 6, source: 'registry-symbol', cached: false });
+    expect(degraded.transportError).toBeInstanceOf(DecimalsTransportError);
+
+    // the EVM adapter reports a revert as DecimalsNotFoundError
+    const missing = createDecimalsResolver({ clients: { evm: evmClient({}) }, registry });
+    expect(await missing.resolve(q)).toEqual({ decimals: 6, source: 'registry-symbol', cached: false, notFound: true });
+    expect(await missing.resolve({ chain: 'evm', address: USDC })).toEqual({ decimals: 18, source: 'fallback', cached: false, notFound: true });
+
+    const strict = createDecimalsResolver({ clients: { evm: evmClient({}) }, registry, fallback: false });
+    await expect(strict.resolve({ chain: 'evm', address: USDC })).rejects.toBeInstanceOf(DecimalsNotFoundError);
+  });
+
+  it('treats viem revert and zero-data errors as a missing token', async () => {
+    const zeroData = Object.assign(new Error('The contract function "decimals" returned no data ("0x").'), { name: 'ContractFunctionZeroDataError' });
+    const reverted = Object.assign(new Error('The contract function "decimals" reverted.'), { name: 'ContractFunctionRevertedError' });
+    const wrap = (cause: Error) => Object.assign(new Error('Contract Call: decimals()'), { name: 'ContractFunctionExecutionError', cause });
+    const evm = evmClient({ '0x01': wrap(zeroData), '0x02': wrap(reverted), '0x03': 99 });
+    const resolver = createDecimalsResolver({ clients: { evm }, registry: createRegistry() });
+    expect(await resolver.resolve({ chain: 'evm', address: '0x01' })).toEqual({ decimals: 18, source: 'fallback', cached: false, notFound: true });
+    expect(await resolver.resolve({ chain: 'evm', address: '0x02' })).toEqual({ decimals: 18, source: 'fallback', cached: false, notFound: true });
+
+    // an out-of-range answer is a transport error unless the caller opts into message-based classification
+    await expect(resolver.resolve({ chain: 'evm', address: '0x03' })).rejects.toBeInstanceOf(DecimalsTransportError);
+    const byMessage = createDecimalsResolver({ clients: { evm }, registry: createRegistry(), classifyError: classifyDecimalsErrorByMessage });
+    expect(await byMessage.resolve({ chain: 'evm', address: '0x03' })).toMatchObject({ decimals: 18, source: 'fallback', notFound: true });
+  });
+
+  it('does not cache failures', async () => {
+    const answers: (number | Error)[] = [new Error('timeout'), 6];
+    const evm = { readContract: async () => { const a = answers.shift()!; if (a instanceof Error) throw a; return a; } };
+    const resolver = createDecimalsResolver({ clients: { evm }, registry: createRegistry() });
+    await expect(resolver.resolve({ chain: 'evm', address: USDC })).rejects.toThrow(/timeout/);
+    expect((await resolver.resolve({ chain: 'evm', address: USDC })).decimals).toBe(6);
+  });
+
+  it('does not cache answers that stood in for a failed chain call', async () => {
+    const answers: (number | Error)[] = [new Error('fetch failed: ECONNRESET'), 6];
+    const evm = { readContract: async () => { const a = answers.shift()!; if (a instanceof Error) throw a; return a; } };
+    const resolver = createDecimalsResolver({ clients: { evm }, registry: createRegistry(), onTransportError: 'fallback' });
+    const q = { chain: 'evm' as const, symbol: 'USDC', address: USDC };
+    expect(await resolver.resolve(q)).toMatchObject({ decimals: 18, source: 'fallback', cached: false });
+    expect(await resolver.resolve(q)).toEqual({ decimals: 6, source: 'chain', cached: false });
+    expect(await resolver.resolve(q)).toEqual({ decimals: 6, source: 'chain', cached: true });
+  });
+
+  it('treats typed not-found errors from the adapters as a missing asset', async () => {
+    const cosmos = { bankDenomMetadata: async () => null };
+    const resolver = createDecimalsResolver({ clients: { cosmos }, registry: createRegistry() });
+    expect(await resolver.resolve({ chain: 'cosmos', denom: 'ufoo' })).toEqual({ decimals: 6, source: 'fallback', cached: false, notFound: true });
+  });
+
+  it('writes chain answers through to the registry and reports registry sources', async () => {
+    const registry = createRegistry();
+    const cosmos = { bankDenomMetadata: async () => ({ display: 'atom', denom_units: [{ denom: 'uatom', exponent: 0 }, { denom: 'atom', exponent: 6 }] }) };
+    const resolver = createDecimalsResolver({ clients: { cosmos }, registry, writeThrough: true });
+    await resolver.resolve({ chain: 'cosmos', chainId: 'cosmoshub-4', symbol: 'ATOM', denom: 'uatom' });
+    expect(registry.getById({ chain: 'cosmos', chainId: 'cosmoshub-4', denom: 'uatom' })).toBe(6);
+
+    const offline = createDecimalsResolver({ registry });
+    expect(await offline.resolve({ chain: 'cosmos', chainId: 'cosmoshub-4', denom: 'uatom' }))
+      .toEqual({ decimals: 6, source: 'registry-id', cached: false });
+  });
+
+  it('resolves batches with per-item results', async () => {
+    const solana = {
+      getParsedAccountInfo: async (mint: string) =>
+        ({ value: mint === 'So11111111111111111111111111111111111111112' ? { data: { parsed: { info: { decimals: 9 } } } } : null }),
+    };
+    const resolver = createDecimalsResolver({ clients: { solana }, registry: createRegistry(), fallback: false });
+    const out = await resolver.resolveMany([
+      { chain: 'solana', address: 'So11111111111111111111111111111111111111112' },
+      { chain: 'solana', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
+    ]);
+    expect(out[0]).toEqual({ ok: true, value: { decimals: 9, source: 'chain', cached: false } });
+    expect(out[1].ok).toBe(false);
+    expect(!out[1].ok && out[1].error).toBeInstanceOf(DecimalsNotFoundError);
+  });
+});
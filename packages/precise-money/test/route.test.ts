@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Route, Rational, createRegistry } from '../src';
+
+const registry = createRegistry({ symbols: { BRL: 2 } });
+registry.register({ chain: 'stellar', symbol: 'USDC', issuer: 'GA5Z', decimals: 7 });
+registry.register({ chain: 'solana', symbol: 'USDC', address: 'EPjF', decimals: 6 });
+registry.register({ chain: 'solana', symbol: 'SOL', decimals: 9 });
+
+const BRL = { symbol: 'BRL' };
+const USDC_XLM = { chain: 'stellar' as const, symbol: 'USDC' };
+const USDC_SOL = { chain: 'solana' as const, symbol: 'USDC' };
+const SOL = { chain: 'solana' as const, symbol: 'SOL' };
+
+const ramp = () =>
+  new Route({ registry, slippageBps: 100 })
+    .hop({ name: 'on-ramp', from: BRL, to: USDC_XLM, rate: '0.18341234', feeBps: 50, fixedFee: '0.50' })
+    .hop({ name: 'bridge', from: USDC_XLM, to: USDC_SOL, fixedFee: 1_000_000n })
+    .hop({ name: 'swap', from: USDC_SOL, to: SOL, rate: '0.0068', feeBps: 30 });
+
+describe('Route', () => {
+  it('quotes exact-in with a per-hop audit', () => {
+    const q = ramp().quoteExactIn(10_000n); // R$100.00
+    const [onRamp, bridge, swap] = q.hops;
+
+    expect(onRamp.from.decimals).toBe(2);
+    expect(onRamp.to.decimals).toBe(7);
+    expect([onRamp.bpsFee, onRamp.fixedFee, onRamp.netIn]).toEqual([50n, 50n, 9_900n]);
+    expect(onRamp.amountOut).toBe(181_578_216n);
+    expect(onRamp.dust.toString()).toBe('3/5');
+
+    expect(bridge.amountIn).toBe(181_578_216n);
+    expect(bridge.netIn).toBe(180_578_216n);
+    expect(bridge.amountOut).toBe(18_057_821n); // 7 → 6 decimals drops a digit
+    expect(bridge.dust.toString()).toBe('3/5');
+
+    expect(swap.bpsFee).toBe(54_174n); // ceil(54173.463)
+    expect(swap.feeDust.toString()).toBe('537/1000');
+    expect(swap.amountOut).toBe(122_424_799n);
+    expect(swap.exactOut.toDecimalString()).toBe('122424799.6');
+
+    expect(q.amountOut).toBe(122_424_799n);
+    expect(q.minOut).toBe(121_200_551n); // −1%
+  });
+
+  it('quotes exact-out as the smallest input that still delivers', () => {
+    const route = ramp();
+    const q = route.quoteExactOut(100_000_000n, { slippageBps: 50 }); // 0.1 SOL
+    expect(q.amountOut).toBeGreaterThanOrEqual(100_000_000n);
+    expect(route.quoteExactIn(q.amountIn - 1n).amountOut).toBeLessThan(100_000_000n);
+    expect(q.targetOut).toBe(100_000_000n);
+    expect(q.maxIn).toBe(q.amountIn + (q.amountIn * 50n + 9_999n) / 10_000n);
+  });
+
+  it('rounds each hop with its own mode', () => {
+    const r = new Route({ registry }).hop({ from: USDC_XLM, to: USDC_SOL, mode: 'ceil' });
+    const hop = r.quoteExactIn(15n).hops[0];
+    expect(hop.amountOut).toBe(2n);
+    expect(hop.dust.equals(Rational.of('-0.5'))).toBe(true);
+    expect(hop.name).toBe('USDC@stellar→USDC@solana');
+  });
+
+  it('validates hops', () => {
+    expect(() => new Route({ registry }).hop({ from: BRL, to: { symbol: 'XYZ' } })).toThrow(/unknown decimals for XYZ/);
+    expect(new Route({ registry }).hop({ from: BRL, to: { symbol: 'XYZ', decimals: 4 } }).hops()).toEqual([{ from: BRL, to: { symbol: 'XYZ', decimals: 4 } }]);
+    expect(() => new Route({ registry }).hop({ from: BRL, to: USDC_XLM }).hop({ from: USDC_SOL, to: SOL }))
+      .toThrow(/hop 1 starts with USDC@solana but hop 0 ends with USDC@stellar/);
+    expect(() => new Route({ registry }).hop({ from: BRL, to: USDC_XLM, feeBps: 10_000 })).toThrow(/feeBps/);
+    expect(() => new Route({ registry }).quoteExactIn(1n)).toThrow(/no hops/);
+    expect(() => new Route({ registry }).hop({ from: BRL, to: USDC_XLM, fixedFee: '1' }).quoteExactIn(50n)).toThrow(/exceed/);
+  });
+});